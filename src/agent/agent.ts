@@ -1,16 +1,20 @@
 import { Config } from "../config/config.js";
 import { AgentEvent, AgentEventType } from "./events.js";
 import { Session } from "./session.js";
+import { SessionSnapshot } from "./persistence.js";
 import { StreamEventType, ToolCall, ToolResultMessage } from "../client/response.js";
-import { ToolConfirmation } from "../tools/base.js";
-import { createLoopBreakerPrompt } from "../prompts/system.js";
+import { ToolConfirmation, ToolResult } from "../tools/base.js";
+import { createLoopBreakerPrompt, createPlanReviewPrompt } from "../prompts/system.js";
+import { LoopDetection, LoopEscalation } from "../context/loop_detector.js";
+import { createLimiter } from "../utils/concurrency.js";
+import { formatCost } from "../client/pricing.js";
 
 export class Agent {
   public session: Session | null;
 
   constructor(
     private config: Config,
-    confirmationCallback?: (confirmation: ToolConfirmation) => boolean | Promise<boolean>
+    private confirmationCallback?: (confirmation: ToolConfirmation) => boolean | Promise<boolean>
   ) {
     this.session = new Session(config);
     if (confirmationCallback) {
@@ -18,51 +22,86 @@ export class Agent {
     }
   }
 
-  async *run(message: string): AsyncGenerator<AgentEvent, void, unknown> {
+  async *run(
+    message: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentEvent, void, unknown> {
     if (!this.session) {
       return;
     }
 
     await this.session.hookSystem.triggerBeforeAgent(message);
     yield AgentEvent.agentStart(message);
+    this.session.ensureTitle(message);
+    const workspace = await this.session.snapshotWorkspace(`before: ${message.slice(0, 72)}`);
+    const turn = this.session.history.beginTurn(
+      message,
+      this.session.contextManager!,
+      workspace
+    );
     this.session.contextManager!.addUserMessage(message);
+    this.session.loopDetector.resetEscalation();
 
     let finalResponse: string | null = null;
+    let cancelled = false;
 
-    for await (const event of this.agenticLoop()) {
-      yield event;
+    try {
+      for await (const event of this.agenticLoop(signal)) {
+        yield event;
 
-      if (event.type === AgentEventType.TEXT_COMPLETE) {
-        finalResponse = event.data.content;
+        if (event.type === AgentEventType.TEXT_COMPLETE) {
+          finalResponse = event.data.content;
+        } else if (event.type === AgentEventType.AGENT_CANCELLED) {
+          cancelled = true;
+          break;
+        }
       }
+    } finally {
+      this.session.history.commitTurn(turn, this.session.contextManager!);
+      this.session.autosave();
     }
 
+    // Hooks see cancelled runs too; the cancel event stays the last one
     await this.session.hookSystem.triggerAfterAgent(message, finalResponse);
-    yield AgentEvent.agentEnd(finalResponse);
+    if (cancelled) {
+      return;
+    }
+    yield AgentEvent.agentEnd(
+      finalResponse,
+      this.session.contextManager!.totalUsage,
+      this.session.costTracker.sessionCost
+    );
   }
 
-  private async *agenticLoop(): AsyncGenerator<AgentEvent, void, unknown> {
+  private async *agenticLoop(
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentEvent, void, unknown> {
     if (!this.session) {
       return;
     }
 
     const maxTurns = this.config.maxTurns;
+    // Set when a loop calls for a plan review: the next response gets no tools
+    let reviewingPlan = false;
 
     for (let turnNum = 0; turnNum < maxTurns; turnNum++) {
+      if (signal?.aborted) {
+        yield AgentEvent.agentCancelled();
+        return;
+      }
+
+      const budgetError = await this.enforceBudget();
+      if (budgetError) {
+        yield budgetError;
+        return;
+      }
+
       this.session.incrementTurn();
       let responseText = "";
 
       // Check for context overflow
       if (this.session.contextManager!.needsCompression()) {
-        const [summary, usage] = await this.session.chatCompactor.compress(
-          this.session.contextManager!
-        );
-
-        if (summary && usage) {
-          this.session.contextManager!.replaceWithSummary(summary);
-          this.session.contextManager!.setLatestUsage(usage);
-          this.session.contextManager!.addUsage(usage);
-        }
+        yield* this.compact(signal);
       }
 
       const toolSchemas = this.session.toolRegistry.getSchemas();
@@ -72,7 +111,10 @@ export class Agent {
 
       for await (const event of this.session.client.chatCompletion(
         this.session.contextManager!.getMessages(),
-        toolSchemas.length > 0 ? toolSchemas : null
+        toolSchemas.length > 0 ? toolSchemas : null,
+        true,
+        signal,
+        reviewingPlan ? "none" : "auto"
       )) {
         if (event.type === StreamEventType.TEXT_DELTA) {
           if (event.textDelta) {
@@ -85,12 +127,27 @@ export class Agent {
             toolCalls.push(event.toolCall);
           }
         } else if (event.type === StreamEventType.ERROR) {
-          yield AgentEvent.agentError(event.error || "Unknown error occurred.");
+          yield AgentEvent.agentError(event.error || "Unknown error occurred.", {
+            kind: "api_error",
+          });
         } else if (event.type === StreamEventType.MESSAGE_COMPLETE) {
           usage = event.usage;
         }
       }
 
+      if (signal?.aborted) {
+        // Keep whatever text was streamed and the usage billed so far, but
+        // drop half-received tool calls
+        if (responseText) {
+          this.session.contextManager!.addAssistantMessage(responseText, null);
+        }
+        if (usage) {
+          this.session.recordUsage(usage);
+        }
+        yield AgentEvent.agentCancelled();
+        return;
+      }
+
       this.session.contextManager!.addAssistantMessage(
         responseText || null,
         toolCalls.length > 0
@@ -114,72 +171,273 @@ export class Agent {
 
       if (toolCalls.length === 0) {
         if (usage) {
-          this.session.contextManager!.setLatestUsage(usage);
-          this.session.contextManager!.addUsage(usage);
+          this.session.recordUsage(usage);
         }
-        this.session.contextManager!.pruneToolOutputs();
-        return;
+        this.session.pruneToolOutputs();
+        if (!reviewingPlan) {
+          return;
+        }
+        // The review is not the answer; carry on with the revised plan
+        reviewingPlan = false;
+        this.session.contextManager!.addUserMessage(
+          "Continue with the task, following your revised plan."
+        );
+        continue;
       }
+      reviewingPlan = false;
 
-      const toolCallResults: ToolResultMessage[] = [];
+      const toolCallResults: ToolResultMessage[] = new Array(toolCalls.length);
+      const limit = createLimiter(this.config.toolConcurrency);
+      let index = 0;
 
-      for (const toolCall of toolCalls) {
-        yield AgentEvent.toolCallStart(
-          toolCall.callId,
-          toolCall.name || "",
-          toolCall.args
-        );
+      for (const batch of this.planToolBatches(toolCalls)) {
+        const pending = new Map<number, Promise<[number, ToolResult]>>();
 
-        this.session.loopDetector.recordAction("tool_call", {
-          tool_name: toolCall.name,
-          args: toolCall.args,
-        });
+        for (const toolCall of batch) {
+          const callIndex = index++;
 
-        const result = await this.session.toolRegistry.invoke(
-          toolCall.name || "",
-          toolCall.args,
-          this.config.cwd,
-          this.session.hookSystem,
-          this.session.approvalManager
-        );
+          yield AgentEvent.toolCallStart(
+            toolCall.callId,
+            toolCall.name || "",
+            toolCall.args
+          );
+
+          this.session.loopDetector.recordAction("tool_call", {
+            tool_name: toolCall.name,
+            call_id: toolCall.callId,
+            args: toolCall.args,
+          });
+
+          pending.set(
+            callIndex,
+            limit(() => this.invokeTool(toolCall, signal)).then(
+              (result): [number, ToolResult] => [callIndex, result]
+            )
+          );
+        }
 
-        yield AgentEvent.toolCallComplete(
-          toolCall.callId,
-          toolCall.name || "",
-          result
-        );
+        // Report completions as they finish; results keep the model's order
+        while (pending.size > 0) {
+          const [callIndex, result] = await Promise.race(pending.values());
+          pending.delete(callIndex);
+          const toolCall = toolCalls[callIndex];
+          if (result.diff) {
+            this.session.recordDiff(toolCall.callId, result.diff);
+          }
+          if (result.metadata.subagent_cost) {
+            this.session.costTracker.recordSubagent(result.metadata.subagent_cost);
+          }
+          this.session.loopDetector.recordResult(
+            toolCall.callId,
+            result.success,
+            result.toModelOutput()
+          );
 
-        toolCallResults.push(
-          new ToolResultMessage(
+          yield AgentEvent.toolCallComplete(
+            toolCall.callId,
+            toolCall.name || "",
+            result
+          );
+
+          toolCallResults[callIndex] = new ToolResultMessage(
             toolCall.callId,
             result.toModelOutput(),
             !result.success
-          )
-        );
+          );
+        }
       }
 
       for (const toolResult of toolCallResults) {
         this.session.contextManager!.addToolResult(
           toolResult.toolCallId,
-          toolResult.content
+          toolResult.content,
+          toolResult.isError
         );
       }
 
-      const loopDetectionError = this.session.loopDetector.checkForLoop();
-      if (loopDetectionError) {
-        const loopPrompt = createLoopBreakerPrompt(loopDetectionError);
-        this.session.contextManager!.addUserMessage(loopPrompt);
+      if (signal?.aborted) {
+        if (usage) {
+          this.session.recordUsage(usage);
+        }
+        yield AgentEvent.agentCancelled();
+        return;
+      }
+
+      const loop = this.session.loopDetector.checkForLoop();
+      if (loop) {
+        const step = this.session.loopDetector.escalate();
+        yield AgentEvent.loopDetected(
+          loop.kind,
+          loop.description,
+          step,
+          this.session.loopDetector.escalationLevel
+        );
+
+        if (step === LoopEscalation.NUDGE) {
+          this.session.contextManager!.addUserMessage(createLoopBreakerPrompt(loop.description));
+        } else if (step === LoopEscalation.PLAN_REVIEW) {
+          this.session.contextManager!.addUserMessage(createPlanReviewPrompt(loop.description));
+          reviewingPlan = true;
+        } else {
+          const stopped = await this.askToContinue(loop);
+          if (stopped) {
+            if (usage) {
+              this.session.recordUsage(usage);
+            }
+            yield stopped;
+            return;
+          }
+        }
       }
 
       if (usage) {
-        this.session.contextManager!.setLatestUsage(usage);
-        this.session.contextManager!.addUsage(usage);
+        this.session.recordUsage(usage);
+      }
+
+      this.session.pruneToolOutputs();
+      this.session.autosave();
+    }
+
+    yield AgentEvent.agentError(`Maximum turns (${maxTurns}) reached`, {
+      kind: "max_turns",
+    });
+  }
+
+  /**
+   * Summarize older turns to make room in the context, keeping the most
+   * recent ones (and the turn in progress) as they are.
+   */
+  private async *compact(signal?: AbortSignal): AsyncGenerator<AgentEvent, void, unknown> {
+    const contextManager = this.session!.contextManager!;
+    const tokensBefore = contextManager.estimateRequestTokens();
+    yield AgentEvent.compactionStart(tokensBefore, contextManager.messageCount);
+
+    const result = await this.session!.prepareCompaction(null, signal);
+    const messageCount = contextManager.messageCount;
+    if (result) {
+      this.session!.applyCompaction(result);
+    }
+
+    yield AgentEvent.compactionComplete(tokensBefore, contextManager.estimateRequestTokens(), {
+      summarizedMessages: result ? result.keepFrom : 0,
+      preservedMessages: result ? messageCount - result.keepFrom : messageCount,
+      attempts: result ? result.attempts : 0,
+      fallback: result ? result.fallback : false,
+    });
+  }
+
+  /**
+   * Check spending before the next model call. A soft limit asks through
+   * the confirmation callback once per scope; a hard limit, or a declined
+   * soft limit, ends the run with an error event. Without a callback
+   * (headless runs, subagents) no one can agree, so soft limits stop too.
+   */
+  private async enforceBudget(): Promise<AgentEvent | null> {
+    const tracker = this.session!.costTracker;
+
+    for (let exceeded = tracker.check(); exceeded; exceeded = tracker.check()) {
+      const label = exceeded.scope === "session" ? "Session" : "Daily";
+      const message =
+        `${label} ${exceeded.kind} budget of ${formatCost(exceeded.limit)} ` +
+        `reached (${formatCost(exceeded.spent)} spent)`;
+
+      const approvalManager = this.session!.approvalManager;
+      if (exceeded.kind === "soft" && approvalManager.canAsk) {
+        const approved = await approvalManager.requestConfirmation(
+          new ToolConfirmation(
+            "budget",
+            { ...exceeded },
+            `${message}. Continue anyway?`
+          )
+        );
+        if (approved) {
+          tracker.acknowledge(exceeded.scope);
+          continue;
+        }
+      }
+
+      return AgentEvent.agentError(message, {
+        kind: "budget_exceeded",
+        scope: exceeded.scope,
+        limit: exceeded.limit,
+        spent: exceeded.spent,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Last step of the loop ladder: ask the user whether the agent should go
+   * on. Going on starts the ladder over; declining, or having no one to
+   * ask, ends the run with an error event.
+   */
+  private async askToContinue(loop: LoopDetection): Promise<AgentEvent | null> {
+    const approvalManager = this.session!.approvalManager;
+    const approved =
+      approvalManager.canAsk &&
+      (await approvalManager.requestConfirmation(
+        new ToolConfirmation(
+          "loop_detected",
+          { ...loop },
+          `The agent seems stuck: ${loop.description}. Let it continue?`
+        )
+      ));
+
+    if (approved) {
+      this.session!.loopDetector.resetEscalation();
+      this.session!.contextManager!.addUserMessage(createLoopBreakerPrompt(loop.description));
+      return null;
+    }
+
+    return AgentEvent.agentError(`Stopped in a loop: ${loop.description}`, {
+      kind: "loop_detected",
+      loop: loop.kind,
+    });
+  }
+
+  /**
+   * Group tool calls into batches that preserve the model's ordering:
+   * consecutive read-only calls share a batch and run concurrently, while
+   * every mutating call gets a batch of its own so side effects and
+   * approval prompts stay serialized.
+   */
+  private planToolBatches(toolCalls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let readBatch: ToolCall[] = [];
+
+    for (const toolCall of toolCalls) {
+      if (this.session!.toolRegistry.isParallelSafe(toolCall.name || "", toolCall.args)) {
+        readBatch.push(toolCall);
+        continue;
       }
 
-      this.session.contextManager!.pruneToolOutputs();
+      if (readBatch.length > 0) {
+        batches.push(readBatch);
+        readBatch = [];
+      }
+      batches.push([toolCall]);
+    }
+
+    if (readBatch.length > 0) {
+      batches.push(readBatch);
     }
 
-    yield AgentEvent.agentError(`Maximum turns (${maxTurns}) reached`);
+    return batches;
+  }
+
+  private invokeTool(
+    toolCall: ToolCall,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
+    return this.session!.toolRegistry.invoke(
+      toolCall.name || "",
+      toolCall.args,
+      this.config.cwd,
+      this.session!.hookSystem,
+      this.session!.approvalManager,
+      signal
+    );
   }
 
   async initialize(): Promise<void> {
@@ -188,6 +446,23 @@ export class Agent {
     }
   }
 
+  /** Swap in a fresh session restored from a snapshot, keeping callbacks. */
+  async restoreSession(snapshot: SessionSnapshot): Promise<Session> {
+    const session = new Session(this.config);
+    await session.initialize();
+    session.restoreSnapshot(snapshot);
+    if (this.confirmationCallback) {
+      session.approvalManager.setConfirmationCallback(this.confirmationCallback);
+    }
+
+    if (this.session) {
+      await this.session.client.close();
+      await this.session.mcpManager.shutdown();
+    }
+    this.session = session;
+    return session;
+  }
+
   async close(): Promise<void> {
     if (this.session) {
       await this.session.client.close();
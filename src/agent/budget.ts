@@ -0,0 +1,149 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { Config } from "../config/config.js";
+import { getDataDir } from "../config/loader.js";
+import { TokenUsage } from "../client/response.js";
+import { calculateCost, getModelPricing } from "../client/pricing.js";
+
+export type BudgetScope = "session" | "daily";
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  kind: "soft" | "hard";
+  limit: number;
+  spent: number;
+}
+
+// Days of history kept in the spend ledger
+const LEDGER_RETENTION_DAYS = 31;
+
+function localDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Spend per local calendar day, shared by every session (and subagent)
+ * on this machine so daily budgets hold across processes.
+ */
+export class SpendLedger {
+  constructor(private path: string = join(getDataDir(), "spend.json")) {}
+
+  private read(): Record<string, number> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+    try {
+      const data = JSON.parse(readFileSync(this.path, "utf-8"));
+      return data && typeof data === "object" ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  today(): number {
+    return this.read()[localDateKey()] || 0;
+  }
+
+  add(cost: number): void {
+    if (cost <= 0) {
+      return;
+    }
+
+    const data = this.read();
+    const key = localDateKey();
+    data[key] = (data[key] || 0) + cost;
+
+    const cutoff = localDateKey(
+      new Date(Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    );
+    for (const day of Object.keys(data)) {
+      if (day < cutoff) {
+        delete data[day];
+      }
+    }
+
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(this.path, JSON.stringify(data, null, 2), "utf-8");
+    } catch {
+      // Spend tracking must never break the agent loop
+    }
+  }
+}
+
+/** Turns token usage into cost and enforces the configured budgets. */
+export class CostTracker {
+  public sessionCost = 0;
+  public unpricedModels: Set<string> = new Set();
+  // Soft limits the user already agreed to exceed
+  private acknowledged: Set<BudgetScope> = new Set();
+
+  constructor(
+    private config: Config,
+    private ledger: SpendLedger = new SpendLedger()
+  ) {}
+
+  get dailyCost(): number {
+    return this.ledger.today();
+  }
+
+  /** Record usage billed at `model`'s rates; returns the cost added. */
+  record(usage: TokenUsage, model: string): number {
+    const pricing = getModelPricing(this.config, model);
+    if (!pricing) {
+      this.unpricedModels.add(model);
+      return 0;
+    }
+
+    const cost = calculateCost(usage, pricing);
+    this.sessionCost += cost;
+    this.ledger.add(cost);
+    return cost;
+  }
+
+  /**
+   * Add spend a subagent already recorded in the ledger, so the session
+   * total and session budgets include delegated work.
+   */
+  recordSubagent(cost: number): void {
+    this.sessionCost += cost;
+  }
+
+  /** Restore the running total of a resumed session. */
+  restore(sessionCost: number): void {
+    this.sessionCost = sessionCost;
+    this.acknowledged.clear();
+  }
+
+  acknowledge(scope: BudgetScope): void {
+    this.acknowledged.add(scope);
+  }
+
+  /** The most severe budget currently exceeded, hard limits first. */
+  check(): BudgetExceeded | null {
+    const budget = this.config.budget;
+    const hasDaily = budget.dailyHard !== undefined || budget.dailySoft !== undefined;
+    const daily = hasDaily ? this.dailyCost : 0;
+
+    const limits: Array<[BudgetScope, "soft" | "hard", number | undefined, number]> = [
+      ["session", "hard", budget.sessionHard, this.sessionCost],
+      ["daily", "hard", budget.dailyHard, daily],
+      ["session", "soft", budget.sessionSoft, this.sessionCost],
+      ["daily", "soft", budget.dailySoft, daily],
+    ];
+
+    for (const [scope, kind, limit, spent] of limits) {
+      if (limit === undefined || spent < limit) {
+        continue;
+      }
+      if (kind === "soft" && this.acknowledged.has(scope)) {
+        continue;
+      }
+      return { scope, kind, limit, spent };
+    }
+
+    return null;
+  }
+}
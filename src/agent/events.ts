@@ -5,10 +5,14 @@ export enum AgentEventType {
   AGENT_START = "agent_start",
   AGENT_END = "agent_end",
   AGENT_ERROR = "agent_error",
+  AGENT_CANCELLED = "agent_cancelled",
   TOOL_CALL_START = "tool_call_start",
   TOOL_CALL_COMPLETE = "tool_call_complete",
   TEXT_DELTA = "text_delta",
   TEXT_COMPLETE = "text_complete",
+  COMPACTION_START = "compaction_start",
+  COMPACTION_COMPLETE = "compaction_complete",
+  LOOP_DETECTED = "loop_detected",
 }
 
 export class AgentEvent {
@@ -17,13 +21,18 @@ export class AgentEvent {
     public data: Record<string, any> = {}
   ) {}
 
+  toDict(): Record<string, any> {
+    return { type: this.type, ...this.data };
+  }
+
   static agentStart(message: string): AgentEvent {
     return new AgentEvent(AgentEventType.AGENT_START, { message });
   }
 
   static agentEnd(
     response?: string | null,
-    usage?: TokenUsage | null
+    usage?: TokenUsage | null,
+    cost?: number | null
   ): AgentEvent {
     return new AgentEvent(AgentEventType.AGENT_END, {
       response,
@@ -33,8 +42,10 @@ export class AgentEvent {
             completionTokens: usage.completionTokens,
             totalTokens: usage.totalTokens,
             cachedTokens: usage.cachedTokens,
+            cacheWriteTokens: usage.cacheWriteTokens,
           }
         : null,
+      cost: cost ?? null,
     });
   }
 
@@ -48,6 +59,10 @@ export class AgentEvent {
     });
   }
 
+  static agentCancelled(reason: string = "Cancelled by user"): AgentEvent {
+    return new AgentEvent(AgentEventType.AGENT_CANCELLED, { reason });
+  }
+
   static textDelta(content: string): AgentEvent {
     return new AgentEvent(AgentEventType.TEXT_DELTA, { content });
   }
@@ -56,6 +71,47 @@ export class AgentEvent {
     return new AgentEvent(AgentEventType.TEXT_COMPLETE, { content });
   }
 
+  static compactionStart(tokensBefore: number, messages: number): AgentEvent {
+    return new AgentEvent(AgentEventType.COMPACTION_START, {
+      tokens_before: tokensBefore,
+      messages,
+    });
+  }
+
+  static compactionComplete(
+    tokensBefore: number,
+    tokensAfter: number,
+    details: {
+      summarizedMessages: number;
+      preservedMessages: number;
+      attempts: number;
+      fallback: boolean;
+    }
+  ): AgentEvent {
+    return new AgentEvent(AgentEventType.COMPACTION_COMPLETE, {
+      tokens_before: tokensBefore,
+      tokens_after: tokensAfter,
+      summarized_messages: details.summarizedMessages,
+      preserved_messages: details.preservedMessages,
+      attempts: details.attempts,
+      fallback: details.fallback,
+    });
+  }
+
+  static loopDetected(
+    kind: string,
+    description: string,
+    escalation: string,
+    level: number
+  ): AgentEvent {
+    return new AgentEvent(AgentEventType.LOOP_DETECTED, {
+      kind,
+      description,
+      escalation,
+      level,
+    });
+  }
+
   static toolCallStart(
     callId: string,
     name: string,
@@ -82,7 +138,7 @@ export class AgentEvent {
       metadata: result.metadata,
       diff: result.diff?.toDiff() || null,
       truncated: result.truncated,
-      exit_code: result.exitCode,
+      exit_code: result.exitCode ?? result.metadata.exit_code ?? null,
     });
   }
 }
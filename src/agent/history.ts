@@ -0,0 +1,416 @@
+import { ContextManager } from "../context/manager.js";
+
+export const DEFAULT_BRANCH = "main";
+
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+/** One user prompt and every message the agent added while answering it. */
+export interface TurnNode {
+  id: string;
+  parentId: string | null;
+  // Branch the turn was recorded on
+  branch: string;
+  prompt: string;
+  messages: Array<Record<string, any>>;
+  // The messages replace everything before them (after /clear or compaction)
+  reset: boolean;
+  // Shadow store snapshot of the workspace before the turn ran
+  workspace: string | null;
+  createdAt: Date;
+}
+
+export interface Branch {
+  name: string;
+  headId: string | null;
+  // Branch this one was forked from, and the turn on it that was replaced
+  parent: string | null;
+  forkTurn: number | null;
+  createdAt: Date;
+}
+
+/** A turn in progress, from ConversationTree.beginTurn(). */
+export interface PendingTurn {
+  prompt: string;
+  start: number;
+  generation: number;
+  reset: boolean;
+  workspace: string | null;
+}
+
+export interface TurnSummary {
+  prompt: string;
+  toolCalls: string[];
+  response: string | null;
+}
+
+export interface BranchComparison {
+  // Turns both branches share
+  commonTurns: number;
+  left: TurnNode[];
+  right: TurnNode[];
+}
+
+/** Tool name plus its most telling argument, e.g. `write_file(src/a.ts)`. */
+function describeToolCall(call: Record<string, any>): string {
+  const name = call.function?.name || "unknown";
+  let args: Record<string, any> = {};
+  try {
+    args = JSON.parse(call.function?.arguments || "{}");
+  } catch {
+    // Keep the bare name
+  }
+  const target = args.path ?? args.file_path ?? args.command ?? args.pattern;
+  return typeof target === "string" ? `${name}(${target})` : name;
+}
+
+export function summarizeTurn(node: TurnNode): TurnSummary {
+  const toolCalls: string[] = [];
+  let response: string | null = null;
+
+  for (const msg of node.messages) {
+    if (msg.role !== "assistant") {
+      continue;
+    }
+    for (const call of msg.tool_calls || []) {
+      toolCalls.push(describeToolCall(call));
+    }
+    if (msg.content) {
+      response = msg.content;
+    }
+  }
+
+  return { prompt: node.prompt, toolCalls, response };
+}
+
+/**
+ * Session history as a tree of turns. Each branch points at its latest
+ * turn; the active conversation is the path from the root to that turn.
+ * Forking starts a new branch just before an earlier turn, so the next
+ * prompt becomes an alternative to it while the original stays intact.
+ */
+export class ConversationTree {
+  private nodes: Map<string, TurnNode> = new Map();
+  private branches: Map<string, Branch> = new Map();
+  private nextNodeId = 1;
+  // ContextManager generation the active path was last in sync with
+  private generation: number | null = null;
+  public current: string = DEFAULT_BRANCH;
+
+  constructor() {
+    this.branches.set(DEFAULT_BRANCH, {
+      name: DEFAULT_BRANCH,
+      headId: null,
+      parent: null,
+      forkTurn: null,
+      createdAt: new Date(),
+    });
+  }
+
+  get currentBranch(): Branch {
+    return this.branches.get(this.current)!;
+  }
+
+  get branchCount(): number {
+    return this.branches.size;
+  }
+
+  getBranch(name: string): Branch | null {
+    return this.branches.get(name) || null;
+  }
+
+  listBranches(): Branch[] {
+    return Array.from(this.branches.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  /** Turns from the root to the branch head, oldest first. */
+  path(branch: string = this.current): TurnNode[] {
+    const turns: TurnNode[] = [];
+    let id = this.requireBranch(branch).headId;
+    while (id) {
+      const node = this.nodes.get(id);
+      if (!node) {
+        break;
+      }
+      turns.push(node);
+      id = node.parentId;
+    }
+    return turns.reverse();
+  }
+
+  /** Branch names from the root branch down to `branch`. */
+  lineage(branch: string = this.current): string[] {
+    const names: string[] = [];
+    let name: string | null = branch;
+    while (name && !names.includes(name)) {
+      names.push(name);
+      name = this.branches.get(name)?.parent ?? null;
+    }
+    return names.reverse();
+  }
+
+  /** The message list the model sees on a branch. */
+  messages(branch: string = this.current): Array<Record<string, any>> {
+    let messages: Array<Record<string, any>> = [];
+    for (const node of this.path(branch)) {
+      messages = node.reset ? [...node.messages] : messages.concat(node.messages);
+    }
+    return messages;
+  }
+
+  /** Other branches that diverge from a branch's path, keyed by turn number. */
+  alternatives(branch: string = this.current): Map<number, string[]> {
+    const length = this.path(branch).length;
+    const result = new Map<number, string[]>();
+
+    for (const other of this.branches.keys()) {
+      if (other === branch) {
+        continue;
+      }
+      const { commonTurns } = this.compare(branch, other);
+      if (commonTurns < length) {
+        const turn = commonTurns + 1;
+        result.set(turn, [...(result.get(turn) || []), other]);
+      }
+    }
+    return result;
+  }
+
+  beginTurn(
+    prompt: string,
+    context: ContextManager,
+    workspace: string | null = null
+  ): PendingTurn {
+    return {
+      prompt,
+      start: context.messageCount,
+      generation: context.generation,
+      // The context was cleared since the tree last saw it
+      reset: this.generation !== null && this.generation !== context.generation,
+      workspace,
+    };
+  }
+
+  /** Record a finished (or cancelled) turn on the current branch. */
+  commitTurn(turn: PendingTurn, context: ContextManager): TurnNode {
+    // Compaction mid-turn rewrites earlier messages, so keep the whole list
+    const reset = turn.reset || turn.generation !== context.generation;
+    const node: TurnNode = {
+      id: `t${this.nextNodeId++}`,
+      parentId: this.currentBranch.headId,
+      branch: this.current,
+      prompt: turn.prompt,
+      messages: context.exportMessages(reset ? 0 : turn.start),
+      reset,
+      workspace: turn.workspace,
+      createdAt: new Date(),
+    };
+
+    this.nodes.set(node.id, node);
+    this.currentBranch.headId = node.id;
+    this.generation = context.generation;
+    return node;
+  }
+
+  /**
+   * Start a branch that diverges just before `turnNumber` (1-based, on the
+   * current path) and make it current.
+   */
+  fork(turnNumber: number, name?: string): Branch {
+    const path = this.path();
+    if (!Number.isInteger(turnNumber) || turnNumber < 1 || turnNumber > path.length) {
+      throw new Error(
+        path.length > 0
+          ? `Turn ${turnNumber} does not exist (1-${path.length})`
+          : "No turns to fork from yet"
+      );
+    }
+
+    const branchName = name || this.generateBranchName();
+    if (!BRANCH_NAME_PATTERN.test(branchName)) {
+      throw new Error(`Invalid branch name: ${branchName}`);
+    }
+    if (this.branches.has(branchName)) {
+      throw new Error(`Branch already exists: ${branchName}`);
+    }
+
+    const branch: Branch = {
+      name: branchName,
+      headId: turnNumber > 1 ? path[turnNumber - 2].id : null,
+      parent: this.current,
+      forkTurn: turnNumber,
+      createdAt: new Date(),
+    };
+    this.branches.set(branchName, branch);
+    this.current = branchName;
+    return branch;
+  }
+
+  /** The last `count` turns on the current branch, oldest first. */
+  lastTurns(count: number): TurnNode[] {
+    const path = this.path();
+    if (!Number.isInteger(count) || count < 1 || count > path.length) {
+      throw new Error(
+        path.length > 0
+          ? `Can only undo 1-${path.length} turns`
+          : "No turns to undo"
+      );
+    }
+    return path.slice(path.length - count);
+  }
+
+  /** Drop the last `count` turns from the current branch. */
+  rewind(count: number): TurnNode[] {
+    const undone = this.lastTurns(count);
+    this.currentBranch.headId = undone[0].parentId;
+    return undone;
+  }
+
+  switchTo(name: string): Branch {
+    const branch = this.requireBranch(name);
+    this.current = name;
+    return branch;
+  }
+
+  /** Mark the context as matching the current path (after loading it). */
+  sync(context: ContextManager): void {
+    this.generation = context.generation;
+  }
+
+  compare(left: string, right: string): BranchComparison {
+    const leftPath = this.path(left);
+    const rightPath = this.path(right);
+
+    let commonTurns = 0;
+    while (
+      commonTurns < leftPath.length &&
+      commonTurns < rightPath.length &&
+      leftPath[commonTurns].id === rightPath[commonTurns].id
+    ) {
+      commonTurns++;
+    }
+
+    return {
+      commonTurns,
+      left: leftPath.slice(commonTurns),
+      right: rightPath.slice(commonTurns),
+    };
+  }
+
+  private requireBranch(name: string): Branch {
+    const branch = this.branches.get(name);
+    if (!branch) {
+      throw new Error(`Branch does not exist: ${name}`);
+    }
+    return branch;
+  }
+
+  private generateBranchName(): string {
+    let n = this.branches.size;
+    while (this.branches.has(`branch-${n}`)) {
+      n++;
+    }
+    return `branch-${n}`;
+  }
+
+  toDict(): Record<string, any> {
+    // Turns no branch leads to (e.g. after /undo) are dropped
+    const reachable = new Set<string>();
+    for (const branch of this.branches.keys()) {
+      for (const node of this.path(branch)) {
+        reachable.add(node.id);
+      }
+    }
+
+    return {
+      current: this.current,
+      branches: this.listBranches().map((branch) => ({
+        name: branch.name,
+        head_id: branch.headId,
+        parent: branch.parent,
+        fork_turn: branch.forkTurn,
+        created_at: branch.createdAt.toISOString(),
+      })),
+      nodes: Array.from(this.nodes.values())
+        .filter((node) => reachable.has(node.id))
+        .map((node) => ({
+          id: node.id,
+          parent_id: node.parentId,
+          branch: node.branch,
+          prompt: node.prompt,
+          messages: node.messages,
+          reset: node.reset,
+          workspace: node.workspace,
+          created_at: node.createdAt.toISOString(),
+        })),
+    };
+  }
+
+  static fromDict(data: Record<string, any>): ConversationTree {
+    const tree = new ConversationTree();
+    tree.branches.clear();
+
+    for (const branch of data.branches || []) {
+      tree.branches.set(branch.name, {
+        name: branch.name,
+        headId: branch.head_id ?? null,
+        parent: branch.parent ?? null,
+        forkTurn: branch.fork_turn ?? null,
+        createdAt: new Date(branch.created_at),
+      });
+    }
+
+    for (const node of data.nodes || []) {
+      tree.nodes.set(node.id, {
+        id: node.id,
+        parentId: node.parent_id ?? null,
+        branch: node.branch,
+        prompt: node.prompt,
+        messages: node.messages || [],
+        reset: !!node.reset,
+        workspace: node.workspace ?? null,
+        createdAt: new Date(node.created_at),
+      });
+      const n = parseInt(String(node.id).slice(1), 10);
+      if (!isNaN(n) && n >= tree.nextNodeId) {
+        tree.nextNodeId = n + 1;
+      }
+    }
+
+    if (tree.branches.size === 0) {
+      return new ConversationTree();
+    }
+    tree.current = tree.branches.has(data.current) ? data.current : tree.listBranches()[0].name;
+    return tree;
+  }
+
+  /** Rebuild a single-branch history from a flat message list (older snapshots). */
+  static fromMessages(messages: Array<Record<string, any>>): ConversationTree {
+    const tree = new ConversationTree();
+    let node: TurnNode | null = null;
+
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        continue;
+      }
+      if (msg.role === "user" || !node) {
+        node = {
+          id: `t${tree.nextNodeId++}`,
+          parentId: tree.currentBranch.headId,
+          branch: DEFAULT_BRANCH,
+          prompt: msg.role === "user" ? msg.content || "" : "",
+          messages: [],
+          reset: false,
+          workspace: null,
+          createdAt: new Date(),
+        };
+        tree.nodes.set(node.id, node);
+        tree.currentBranch.headId = node.id;
+      }
+      node.messages.push(msg);
+    }
+
+    return tree;
+  }
+}
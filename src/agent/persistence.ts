@@ -1,7 +1,110 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from "fs";
+import {
+  readFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+} from "fs";
 import { join } from "path";
+import { gunzipSync, gzipSync } from "zlib";
 import { TokenUsage } from "../client/response.js";
 import { getDataDir } from "../config/loader.js";
+import { Config, RetentionConfig } from "../config/config.js";
+import {
+  StorageCipher,
+  encryptFile,
+  readStoredFile,
+  writeFileAtomic,
+  writeStoredFile,
+} from "../utils/encryption.js";
+import { ConfigError } from "../utils/errors.js";
+import { SHADOW_DIR_NAME, WORKTREE_FILE } from "../safety/shadow_store.js";
+
+// Bump when the snapshot layout changes, and add a step to MIGRATIONS
+export const SNAPSHOT_VERSION = 6;
+
+// Migrations[n] upgrades a version-n snapshot dict to version n + 1
+const MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  // v1 only held messages and usage
+  1: (data) => ({
+    ...data,
+    total_cost: data.total_cost || 0,
+    tool_state: {},
+    loop_history: [],
+    settings: null,
+  }),
+  // v2 kept a single linear history; v3 adds the branch tree
+  2: (data) => ({ ...data, history: null }),
+  3: (data) => ({ ...data, workspace: null }),
+  4: (data) => ({ ...data, file_diffs: {} }),
+  5: (data) => ({
+    ...data,
+    title: deriveTitle(data.messages?.find((m: any) => m.role === "user")?.content || ""),
+  }),
+};
+
+const TITLE_MAX_CHARS = 60;
+
+/** Short session title from the first prompt: its first line, minus filler. */
+export function deriveTitle(prompt: string): string | null {
+  const line = prompt
+    .replace(/```[\s\S]*?(```|$)/g, " ")
+    .split("\n")
+    .map((l) => l.replace(/[#>*`_]+/g, " ").replace(/\s+/g, " ").trim())
+    .find((l) => l.length > 0);
+  if (!line) {
+    return null;
+  }
+
+  const text = line.replace(/^(please|can you|could you|would you|hey|hi)[,\s]+/i, "");
+  const title = text.charAt(0).toUpperCase() + text.slice(1);
+  if (title.length <= TITLE_MAX_CHARS) {
+    return title;
+  }
+  const cut = title.slice(0, TITLE_MAX_CHARS);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > TITLE_MAX_CHARS / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+export function migrateSnapshot(data: Record<string, any>): Record<string, any> {
+  let version = data.version ?? 1;
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${version} is newer than supported (${SNAPSHOT_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < SNAPSHOT_VERSION) {
+    migrated = { ...MIGRATIONS[version](migrated), version: version + 1 };
+    version++;
+  }
+  return migrated;
+}
+
+/** Session-level overrides (e.g. from /model and /approval) restored on resume. */
+export interface SessionSettings {
+  cwd: string;
+  modelName: string;
+  routingMain: string | null;
+  approval: string;
+}
+
+export interface SessionState {
+  // Keyed by tool name, from Tool.getState()
+  toolState: Record<string, Record<string, any>>;
+  loopHistory: string[];
+  settings: SessionSettings | null;
+  // ConversationTree.toDict(); null for sessions saved before branching
+  history: Record<string, any> | null;
+  // Shadow store snapshot of the workspace, recorded for checkpoints
+  workspace: string | null;
+  // Unified diffs of file edits keyed by tool call id, for transcripts
+  fileDiffs: Record<string, string>;
+}
 
 export class SessionSnapshot {
   constructor(
@@ -10,26 +113,55 @@ export class SessionSnapshot {
     public updatedAt: Date,
     public turnCount: number,
     public messages: Array<Record<string, any>>,
-    public totalUsage: TokenUsage
+    public totalUsage: TokenUsage,
+    public totalCost: number = 0,
+    public title: string | null = null,
+    public state: SessionState = {
+      toolState: {},
+      loopHistory: [],
+      settings: null,
+      history: null,
+      workspace: null,
+      fileDiffs: {},
+    }
   ) {}
 
   toDict(): Record<string, any> {
+    const settings = this.state.settings;
     return {
+      version: SNAPSHOT_VERSION,
       session_id: this.sessionId,
       created_at: this.createdAt.toISOString(),
       updated_at: this.updatedAt.toISOString(),
       turn_count: this.turnCount,
+      title: this.title,
       messages: this.messages,
       total_usage: {
         promptTokens: this.totalUsage.promptTokens,
         completionTokens: this.totalUsage.completionTokens,
         totalTokens: this.totalUsage.totalTokens,
         cachedTokens: this.totalUsage.cachedTokens,
+        cacheWriteTokens: this.totalUsage.cacheWriteTokens,
       },
+      total_cost: this.totalCost,
+      tool_state: this.state.toolState,
+      loop_history: this.state.loopHistory,
+      settings: settings
+        ? {
+            cwd: settings.cwd,
+            model_name: settings.modelName,
+            routing_main: settings.routingMain,
+            approval: settings.approval,
+          }
+        : null,
+      history: this.state.history,
+      workspace: this.state.workspace,
+      file_diffs: this.state.fileDiffs,
     };
   }
 
-  static fromDict(data: Record<string, any>): SessionSnapshot {
+  static fromDict(raw: Record<string, any>): SessionSnapshot {
+    const data = migrateSnapshot(raw);
     return new SessionSnapshot(
       data.session_id,
       new Date(data.created_at),
@@ -40,20 +172,92 @@ export class SessionSnapshot {
         data.total_usage.promptTokens,
         data.total_usage.completionTokens,
         data.total_usage.totalTokens,
-        data.total_usage.cachedTokens
-      )
+        data.total_usage.cachedTokens,
+        data.total_usage.cacheWriteTokens || 0
+      ),
+      data.total_cost || 0,
+      data.title ?? null,
+      {
+        toolState: data.tool_state || {},
+        loopHistory: data.loop_history || [],
+        settings: data.settings
+          ? {
+              cwd: data.settings.cwd,
+              modelName: data.settings.model_name,
+              routingMain: data.settings.routing_main ?? null,
+              approval: data.settings.approval,
+            }
+          : null,
+        history: data.history ?? null,
+        workspace: data.workspace ?? null,
+        fileDiffs: data.file_diffs || {},
+      }
     );
   }
 }
 
+const JSON_SUFFIX = ".json";
+const GZIP_SUFFIX = ".json.gz";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What a retention pass removed or compressed. */
+export interface PruneReport {
+  deletedSessions: string[];
+  deletedCheckpoints: string[];
+  // Workspace paths (or repository names) of dropped file checkpoint stores
+  deletedShadowRepos: string[];
+  compressed: string[];
+  freedBytes: number;
+  totalBytes: number;
+}
+
+interface StoredFile {
+  id: string;
+  path: string;
+  bytes: number;
+  compressed: boolean;
+}
+
+interface StoredSession extends StoredFile {
+  modifiedAt: number;
+  pinned: boolean;
+}
+
+/** A ShadowStore repository holding one workspace's file checkpoints. */
+interface ShadowRepo {
+  path: string;
+  bytes: number;
+  lastUsed: number;
+  workTree: string | null;
+}
+
+function directorySize(path: string): number {
+  let total = 0;
+  for (const entry of readdirSync(path, { withFileTypes: true })) {
+    const entryPath = join(path, entry.name);
+    total += entry.isDirectory() ? directorySize(entryPath) : statSync(entryPath).size;
+  }
+  return total;
+}
+
 export class PersistenceManager {
+  public readonly dataDir: string;
   private sessionsDir: string;
   private checkpointsDir: string;
+  private shadowDir: string;
+  // Pins live outside the snapshots so pruning needs no snapshot reads
+  private pinsPath: string;
 
-  constructor() {
-    const dataDir = getDataDir();
+  constructor(
+    dataDir: string = getDataDir(),
+    // Encrypts snapshots on write; null stores plain JSON
+    public readonly cipher: StorageCipher | null = null
+  ) {
+    this.dataDir = dataDir;
     this.sessionsDir = join(dataDir, "sessions");
     this.checkpointsDir = join(dataDir, "checkpoints");
+    this.shadowDir = join(dataDir, SHADOW_DIR_NAME);
+    this.pinsPath = join(dataDir, "pinned_sessions.json");
 
     // Create directories if they don't exist
     if (!existsSync(this.sessionsDir)) {
@@ -64,67 +268,188 @@ export class PersistenceManager {
     }
   }
 
+  static fromConfig(config: Config): PersistenceManager {
+    return new PersistenceManager(getDataDir(), StorageCipher.fromConfig(config.encryption));
+  }
+
+  // Snapshots are JSON, gzipped once retention compresses them, and
+  // encrypted last when a cipher is set
+
+  private writeSnapshot(dir: string, id: string, snapshot: SessionSnapshot): void {
+    writeStoredFile(
+      join(dir, `${id}${JSON_SUFFIX}`),
+      JSON.stringify(snapshot.toDict(), null, 2),
+      this.cipher
+    );
+    // A fresh save supersedes an older compressed copy
+    const compressed = join(dir, `${id}${GZIP_SUFFIX}`);
+    if (existsSync(compressed)) {
+      unlinkSync(compressed);
+    }
+  }
+
+  private readRaw(path: string): Record<string, any> {
+    const data = readStoredFile(path, this.cipher);
+    const content = path.endsWith(GZIP_SUFFIX) ? gunzipSync(data) : data;
+    return JSON.parse(content.toString("utf-8"));
+  }
+
+  private findFile(dir: string, id: string): string | null {
+    for (const suffix of [JSON_SUFFIX, GZIP_SUFFIX]) {
+      const path = join(dir, `${id}${suffix}`);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+    return null;
+  }
+
+  private readSnapshot(dir: string, id: string): SessionSnapshot | null {
+    const path = this.findFile(dir, id);
+    if (!path) {
+      return null;
+    }
+
+    try {
+      return SessionSnapshot.fromDict(this.readRaw(path));
+    } catch (error) {
+      // A missing or wrong key is not the same as a missing session
+      if (error instanceof ConfigError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  private listFiles(dir: string): StoredFile[] {
+    try {
+      return readdirSync(dir)
+        .filter((file) => file.endsWith(JSON_SUFFIX) || file.endsWith(GZIP_SUFFIX))
+        .map((file) => {
+          const compressed = file.endsWith(GZIP_SUFFIX);
+          const path = join(dir, file);
+          return {
+            id: file.slice(0, -(compressed ? GZIP_SUFFIX : JSON_SUFFIX).length),
+            path,
+            bytes: statSync(path).size,
+            compressed,
+          };
+        });
+    } catch {
+      return [];
+    }
+  }
+
   saveSession(snapshot: SessionSnapshot): void {
-    const filePath = join(this.sessionsDir, `${snapshot.sessionId}.json`);
-    writeFileSync(filePath, JSON.stringify(snapshot.toDict(), null, 2), "utf-8");
-    // Set file permissions to 0o600 (read/write for owner only)
-    // Note: chmodSync is not available in ES modules, permissions are set via mkdirSync
+    this.writeSnapshot(this.sessionsDir, snapshot.sessionId, snapshot);
   }
 
   loadSession(sessionId: string): SessionSnapshot | null {
-    const filePath = join(this.sessionsDir, `${sessionId}.json`);
+    return this.readSnapshot(this.sessionsDir, sessionId);
+  }
 
-    if (!existsSync(filePath)) {
-      return null;
+  deleteSession(sessionId: string): boolean {
+    const path = this.findFile(this.sessionsDir, sessionId);
+    if (!path) {
+      return false;
     }
 
+    unlinkSync(path);
+    this.setPinned(sessionId, false);
+    return true;
+  }
+
+  pinnedSessions(): Set<string> {
     try {
-      const content = readFileSync(filePath, "utf-8");
-      const data = JSON.parse(content);
-      return SessionSnapshot.fromDict(data);
+      const ids = JSON.parse(readFileSync(this.pinsPath, "utf-8"));
+      return new Set(Array.isArray(ids) ? ids : []);
     } catch {
-      return null;
+      return new Set();
+    }
+  }
+
+  private setPinned(sessionId: string, pinned: boolean): void {
+    const pins = this.pinnedSessions();
+    if (pins.has(sessionId) === pinned) {
+      return;
     }
+    if (pinned) {
+      pins.add(sessionId);
+    } else {
+      pins.delete(sessionId);
+    }
+    writeFileAtomic(this.pinsPath, JSON.stringify(Array.from(pins).sort(), null, 2));
+  }
+
+  /** Exempt a saved session from pruning; false if it does not exist. */
+  pinSession(sessionId: string, pinned: boolean = true): boolean {
+    if (!this.findFile(this.sessionsDir, sessionId)) {
+      return false;
+    }
+    this.setPinned(sessionId, pinned);
+    return true;
+  }
+
+  renameSession(sessionId: string, title: string): boolean {
+    const snapshot = this.loadSession(sessionId);
+    if (!snapshot) {
+      return false;
+    }
+    snapshot.title = title;
+    this.saveSession(snapshot);
+    return true;
   }
 
   listSessions(): Array<Record<string, any>> {
     const sessions: Array<Record<string, any>> = [];
+    const pins = this.pinnedSessions();
 
-    try {
-      const files = readdirSync(this.sessionsDir);
-      for (const file of files) {
-        if (!file.endsWith(".json")) {
-          continue;
-        }
-
-        try {
-          const filePath = join(this.sessionsDir, file);
-          const content = readFileSync(filePath, "utf-8");
-          const data = JSON.parse(content);
-          sessions.push({
-            session_id: data.session_id,
-            created_at: data.created_at,
-            updated_at: data.updated_at,
-            turn_count: data.turn_count,
-          });
-        } catch {
-          // Skip invalid files
-          continue;
+    for (const file of this.listFiles(this.sessionsDir)) {
+      try {
+        const data = this.readRaw(file.path);
+        sessions.push({
+          session_id: data.session_id,
+          created_at: data.created_at,
+          updated_at: data.updated_at,
+          turn_count: data.turn_count,
+          title: data.title ?? null,
+          pinned: pins.has(data.session_id),
+          cwd: data.settings?.cwd ?? null,
+          bytes: file.bytes,
+        });
+      } catch (error) {
+        if (error instanceof ConfigError) {
+          throw error;
         }
+        // Skip invalid files
+        continue;
       }
-
-      sessions.sort((a, b) => {
-        const aTime = new Date(a.updated_at).getTime();
-        const bTime = new Date(b.updated_at).getTime();
-        return bTime - aTime; // Most recent first
-      });
-    } catch {
-      // Return empty list if directory doesn't exist or can't be read
     }
 
+    sessions.sort((a, b) => {
+      const aTime = new Date(a.updated_at).getTime();
+      const bTime = new Date(b.updated_at).getTime();
+      return bTime - aTime; // Most recent first
+    });
+
     return sessions;
   }
 
+  /** Stored session files with their modification times, for indexing. */
+  listSessionFiles(): Array<{ sessionId: string; mtimeMs: number }> {
+    return this.listFiles(this.sessionsDir).map((file) => ({
+      sessionId: file.id,
+      mtimeMs: statSync(file.path).mtimeMs,
+    }));
+  }
+
+  /** Most recently updated session, preferring ones started in `cwd`. */
+  findLatestSession(cwd?: string): string | null {
+    const sessions = this.listSessions();
+    const match = cwd ? sessions.find((s) => s.cwd === cwd) : sessions[0];
+    return match?.session_id ?? null;
+  }
+
   saveCheckpoint(snapshot: SessionSnapshot): string {
     const timestamp = new Date()
       .toISOString()
@@ -132,26 +457,219 @@ export class PersistenceManager {
       .replace("T", "_")
       .substring(0, 19);
     const checkpointId = `${snapshot.sessionId}_${timestamp}`;
-    const filePath = join(this.checkpointsDir, `${checkpointId}.json`);
-
-    writeFileSync(filePath, JSON.stringify(snapshot.toDict(), null, 2), "utf-8");
-    // Note: File permissions are managed via directory permissions
+    this.writeSnapshot(this.checkpointsDir, checkpointId, snapshot);
     return checkpointId;
   }
 
   loadCheckpoint(checkpointId: string): SessionSnapshot | null {
-    const filePath = join(this.checkpointsDir, `${checkpointId}.json`);
+    return this.readSnapshot(this.checkpointsDir, checkpointId);
+  }
 
-    if (!existsSync(filePath)) {
-      return null;
-    }
+  /** Session files, newest first; a file's mtime is its last save. */
+  private storedSessions(): StoredSession[] {
+    const pins = this.pinnedSessions();
+    return this.listFiles(this.sessionsDir)
+      .map((file) => ({
+        ...file,
+        modifiedAt: statSync(file.path).mtimeMs,
+        pinned: pins.has(file.id),
+      }))
+      .sort((a, b) => b.modifiedAt - a.modifiedAt);
+  }
 
+  private shadowRepos(): ShadowRepo[] {
+    let names: string[];
     try {
-      const content = readFileSync(filePath, "utf-8");
-      const data = JSON.parse(content);
-      return SessionSnapshot.fromDict(data);
+      names = readdirSync(this.shadowDir).filter((name) => name.endsWith(".git"));
     } catch {
-      return null;
+      return [];
+    }
+
+    return names.map((name) => {
+      const path = join(this.shadowDir, name);
+      const marker = join(path, WORKTREE_FILE);
+      const hasMarker = existsSync(marker);
+      return {
+        path,
+        bytes: directorySize(path),
+        lastUsed: statSync(hasMarker ? marker : path).mtimeMs,
+        workTree: hasMarker ? readFileSync(marker, "utf-8").trim() : null,
+      };
+    });
+  }
+
+  /**
+   * Apply a retention policy: drop sessions past the age, count and size
+   * limits (oldest first, never pinned or `keep` ones), drop checkpoints
+   * of dropped sessions and past the age limit, drop file checkpoint
+   * stores of deleted workspaces or unused past the age limit, then gzip
+   * snapshots older than `compressAfterDays`. With `dryRun`, only report.
+   */
+  prune(
+    policy: RetentionConfig,
+    options: { dryRun?: boolean; keep?: string[]; now?: number } = {}
+  ): PruneReport {
+    const now = options.now ?? Date.now();
+    const keep = new Set(options.keep || []);
+    const sessions = this.storedSessions();
+    const checkpoints = this.listFiles(this.checkpointsDir);
+    const pinned = new Set(sessions.filter((s) => s.pinned).map((s) => s.id));
+
+    const deletable = (session: StoredSession): boolean =>
+      !keep.has(session.id) && !(policy.keepPinned && session.pinned);
+    const deleted = new Set<string>();
+
+    if (policy.maxAgeDays > 0) {
+      const cutoff = now - policy.maxAgeDays * DAY_MS;
+      for (const session of sessions) {
+        if (session.modifiedAt < cutoff && deletable(session)) {
+          deleted.add(session.id);
+        }
+      }
+    }
+
+    // Oldest first for the count and size limits
+    const remaining = (): StoredSession[] =>
+      sessions.filter((s) => !deleted.has(s.id)).reverse();
+
+    if (policy.maxSessions > 0) {
+      let excess = remaining().length - policy.maxSessions;
+      for (const session of remaining()) {
+        if (excess <= 0) {
+          break;
+        }
+        if (deletable(session)) {
+          deleted.add(session.id);
+          excess--;
+        }
+      }
     }
+
+    const checkpointSession = (checkpointId: string): string =>
+      checkpointId.replace(/_[^_]+_[^_]+$/, "");
+    const checkpointTime = (file: StoredFile): number => statSync(file.path).mtimeMs;
+    const deletedCheckpoints = new Set<string>();
+    for (const checkpoint of checkpoints) {
+      const sessionId = checkpointSession(checkpoint.id);
+      const expired =
+        policy.maxAgeDays > 0 &&
+        checkpointTime(checkpoint) < now - policy.maxAgeDays * DAY_MS &&
+        !(policy.keepPinned && pinned.has(sessionId));
+      if (deleted.has(sessionId) || expired) {
+        deletedCheckpoints.add(checkpoint.id);
+      }
+    }
+
+    const sizeOf = (): number =>
+      sessions.filter((s) => !deleted.has(s.id)).reduce((sum, s) => sum + s.bytes, 0) +
+      checkpoints
+        .filter((c) => !deletedCheckpoints.has(c.id))
+        .reduce((sum, c) => sum + c.bytes, 0);
+
+    if (policy.maxTotalMb > 0) {
+      const limit = policy.maxTotalMb * 1024 * 1024;
+      for (const session of remaining()) {
+        if (sizeOf() <= limit) {
+          break;
+        }
+        if (deletable(session)) {
+          deleted.add(session.id);
+          for (const checkpoint of checkpoints) {
+            if (checkpointSession(checkpoint.id) === session.id) {
+              deletedCheckpoints.add(checkpoint.id);
+            }
+          }
+        }
+      }
+    }
+
+    const shadowRepos = this.shadowRepos();
+    const deletedShadowRepos = shadowRepos.filter(
+      (repo) =>
+        (repo.workTree !== null && !existsSync(repo.workTree)) ||
+        (policy.maxAgeDays > 0 && repo.lastUsed < now - policy.maxAgeDays * DAY_MS)
+    );
+
+    const report: PruneReport = {
+      deletedSessions: Array.from(deleted),
+      deletedCheckpoints: Array.from(deletedCheckpoints),
+      deletedShadowRepos: deletedShadowRepos.map((repo) => repo.workTree || repo.path),
+      compressed: [],
+      freedBytes: 0,
+      totalBytes: 0,
+    };
+
+    const compressCutoff =
+      policy.compressAfterDays > 0 ? now - policy.compressAfterDays * DAY_MS : 0;
+    for (const session of sessions) {
+      if (deleted.has(session.id)) {
+        report.freedBytes += session.bytes;
+        if (!options.dryRun) {
+          unlinkSync(session.path);
+          this.setPinned(session.id, false);
+        }
+      } else if (!session.compressed && session.modifiedAt < compressCutoff) {
+        report.compressed.push(session.id);
+        if (!options.dryRun) {
+          this.compress(session.path);
+        }
+      }
+    }
+
+    for (const checkpoint of checkpoints) {
+      if (deletedCheckpoints.has(checkpoint.id)) {
+        report.freedBytes += checkpoint.bytes;
+        if (!options.dryRun) {
+          unlinkSync(checkpoint.path);
+        }
+      } else if (!checkpoint.compressed && checkpointTime(checkpoint) < compressCutoff) {
+        if (!options.dryRun) {
+          this.compress(checkpoint.path);
+        }
+      }
+    }
+
+    for (const repo of deletedShadowRepos) {
+      report.freedBytes += repo.bytes;
+      if (!options.dryRun) {
+        rmSync(repo.path, { recursive: true, force: true });
+      }
+    }
+    const shadowBytes = shadowRepos
+      .filter((repo) => !deletedShadowRepos.includes(repo))
+      .reduce((sum, repo) => sum + repo.bytes, 0);
+
+    report.totalBytes =
+      shadowBytes +
+      (options.dryRun
+        ? sizeOf()
+        : [...this.listFiles(this.sessionsDir), ...this.listFiles(this.checkpointsDir)].reduce(
+            (sum, file) => sum + file.bytes,
+            0
+          ));
+    return report;
+  }
+
+  /** Encrypt every plaintext session and checkpoint; returns how many. */
+  encryptAll(): number {
+    if (!this.cipher) {
+      throw new ConfigError("Encryption is not enabled", { configKey: "encryption.enabled" });
+    }
+    let count = 0;
+    for (const file of [...this.listFiles(this.sessionsDir), ...this.listFiles(this.checkpointsDir)]) {
+      if (encryptFile(file.path, this.cipher)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private compress(path: string): void {
+    const target = path.slice(0, -JSON_SUFFIX.length) + GZIP_SUFFIX;
+    const { atime, mtime } = statSync(path);
+    writeStoredFile(target, gzipSync(readStoredFile(path, this.cipher)), this.cipher);
+    // Checkpoint age is read from mtime
+    utimesSync(target, atime, mtime);
+    unlinkSync(path);
   }
 }
@@ -0,0 +1,259 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { PersistenceManager, SessionSnapshot } from "./persistence.js";
+import { readStoredFile, writeStoredFile } from "../utils/encryption.js";
+
+// Bump to rebuild indexes written by older versions
+const INDEX_VERSION = 1;
+
+const MAX_TERM_LENGTH = 40;
+const SNIPPET_RADIUS = 60;
+const MAX_SNIPPETS = 3;
+
+// Tools whose `path` argument is a file they change
+const FILE_WRITING_TOOLS = new Set(["write_file", "edit"]);
+
+interface IndexEntry {
+  mtime_ms: number;
+  title: string | null;
+  first_prompt: string | null;
+  cwd: string | null;
+  updated_at: string;
+  files: string[];
+  terms: string[];
+}
+
+interface IndexData {
+  version: number;
+  sessions: Record<string, IndexEntry>;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  title: string | null;
+  firstPrompt: string | null;
+  cwd: string | null;
+  updatedAt: string;
+  files: string[];
+  matches: number;
+  snippets: string[];
+}
+
+/** Searchable pieces of a session, labelled by where they came from. */
+interface Chunk {
+  label: string;
+  text: string;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) || []).filter(
+    (term) => term.length <= MAX_TERM_LENGTH
+  );
+}
+
+function sessionChunks(snapshot: SessionSnapshot): Chunk[] {
+  const chunks: Chunk[] = [];
+  const toolNames = new Map<string, string>();
+
+  for (const msg of snapshot.messages) {
+    if (msg.role === "user" || (msg.role === "assistant" && msg.content)) {
+      chunks.push({ label: msg.role, text: msg.content || "" });
+    }
+    for (const call of msg.tool_calls || []) {
+      const name = call.function?.name || "tool";
+      toolNames.set(call.id, name);
+      chunks.push({ label: name, text: call.function?.arguments || "" });
+    }
+    if (msg.role === "tool") {
+      const name = toolNames.get(msg.tool_call_id) || "tool";
+      chunks.push({ label: `${name} output`, text: msg.content || "" });
+    }
+  }
+
+  return chunks;
+}
+
+function filesTouched(snapshot: SessionSnapshot): string[] {
+  const files = new Set<string>();
+
+  for (const diff of Object.values(snapshot.state.fileDiffs)) {
+    // Deletions name the file on the "---" side
+    const match = diff.match(/^\+\+\+ (.+)$/m);
+    const path = match && match[1] !== "/dev/null" ? match[1] : diff.match(/^--- (.+)$/m)?.[1];
+    if (path && path !== "/dev/null") {
+      files.add(path);
+    }
+  }
+
+  // Sessions from before diffs were kept
+  for (const msg of snapshot.messages) {
+    for (const call of msg.tool_calls || []) {
+      if (!FILE_WRITING_TOOLS.has(call.function?.name)) {
+        continue;
+      }
+      try {
+        const args = JSON.parse(call.function.arguments || "{}");
+        if (typeof args.path === "string") {
+          files.add(args.path);
+        }
+      } catch {
+        // Unparseable arguments name no file
+      }
+    }
+  }
+
+  return Array.from(files).sort();
+}
+
+function makeSnippet(chunk: Chunk, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(chunk.text.length, index + length + SNIPPET_RADIUS);
+  const text = chunk.text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${chunk.label}: ${start > 0 ? "…" : ""}${text}${end < chunk.text.length ? "…" : ""}`;
+}
+
+/**
+ * Word index over saved sessions, kept next to them in the data dir. It
+ * is refreshed lazily before each search, re-reading only sessions whose
+ * files changed, so saving a session stays cheap.
+ */
+export class SessionIndex {
+  private readonly path: string;
+
+  constructor(private persistence: PersistenceManager = new PersistenceManager()) {
+    this.path = join(persistence.dataDir, "session_index.json");
+  }
+
+  private load(): IndexData {
+    if (existsSync(this.path)) {
+      try {
+        // The index holds session words, so it is encrypted like the sessions
+        const data = JSON.parse(
+          readStoredFile(this.path, this.persistence.cipher).toString("utf-8")
+        );
+        if (data.version === INDEX_VERSION && data.sessions) {
+          return data;
+        }
+      } catch {
+        // Rebuild a corrupt index
+      }
+    }
+    return { version: INDEX_VERSION, sessions: {} };
+  }
+
+  /** Bring the index up to date with the sessions on disk. */
+  refresh(): IndexData {
+    const data = this.load();
+    const files = this.persistence.listSessionFiles();
+    let changed = false;
+
+    const onDisk = new Set(files.map((file) => file.sessionId));
+    for (const sessionId of Object.keys(data.sessions)) {
+      if (!onDisk.has(sessionId)) {
+        delete data.sessions[sessionId];
+        changed = true;
+      }
+    }
+
+    for (const { sessionId, mtimeMs } of files) {
+      if (data.sessions[sessionId]?.mtime_ms === mtimeMs) {
+        continue;
+      }
+      const snapshot = this.persistence.loadSession(sessionId);
+      if (!snapshot) {
+        continue;
+      }
+
+      const terms = new Set<string>();
+      for (const chunk of sessionChunks(snapshot)) {
+        for (const term of tokenize(chunk.text)) {
+          terms.add(term);
+        }
+      }
+
+      data.sessions[sessionId] = {
+        mtime_ms: mtimeMs,
+        title: snapshot.title,
+        first_prompt: snapshot.messages.find((m) => m.role === "user")?.content ?? null,
+        cwd: snapshot.state.settings?.cwd ?? null,
+        updated_at: snapshot.updatedAt.toISOString(),
+        files: filesTouched(snapshot),
+        terms: Array.from(terms).sort(),
+      };
+      changed = true;
+    }
+
+    if (changed) {
+      try {
+        writeStoredFile(this.path, JSON.stringify(data), this.persistence.cipher);
+      } catch {
+        // An unwritable index just gets rebuilt next time
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Sessions containing every word of `query` (words match as prefixes),
+   * most matches first.
+   */
+  search(query: string, limit: number = 10): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const data = this.refresh();
+    const hits: SearchHit[] = [];
+
+    for (const [sessionId, entry] of Object.entries(data.sessions)) {
+      // Touched file names count as content too
+      const terms = entry.terms.concat(tokenize(entry.files.join(" ")));
+      const matchesAll = queryTerms.every((q) => terms.some((term) => term.startsWith(q)));
+      if (!matchesAll) {
+        continue;
+      }
+
+      const snapshot = this.persistence.loadSession(sessionId);
+      if (!snapshot) {
+        continue;
+      }
+
+      let matches = 0;
+      const snippets: string[] = [];
+      for (const chunk of sessionChunks(snapshot)) {
+        const lower = chunk.text.toLowerCase();
+        let snippetTaken = false;
+        for (const term of queryTerms) {
+          let index = lower.indexOf(term);
+          if (index >= 0 && !snippetTaken && snippets.length < MAX_SNIPPETS) {
+            snippets.push(makeSnippet(chunk, index, term.length));
+            snippetTaken = true;
+          }
+          while (index >= 0) {
+            matches++;
+            index = lower.indexOf(term, index + term.length);
+          }
+        }
+      }
+
+      hits.push({
+        sessionId,
+        title: entry.title,
+        firstPrompt: entry.first_prompt,
+        cwd: entry.cwd,
+        updatedAt: entry.updated_at,
+        files: entry.files,
+        matches,
+        snippets,
+      });
+    }
+
+    hits.sort(
+      (a, b) =>
+        b.matches - a.matches ||
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+    return hits.slice(0, limit);
+  }
+}
@@ -1,7 +1,12 @@
 import { LLMClient } from "../client/llm_client.js";
-import { Config } from "../config/config.js";
+import {
+  ApprovalPolicy,
+  Config,
+  getProfileNames,
+  resolveModelForRole,
+} from "../config/config.js";
 import { getDataDir } from "../config/loader.js";
-import { ChatCompactor } from "../context/compaction.js";
+import { ChatCompactor, CompactionResult } from "../context/compaction.js";
 import { LoopDetector } from "../context/loop_detector.js";
 import { ContextManager } from "../context/manager.js";
 import { HookSystem } from "../hooks/hook_system.js";
@@ -9,9 +14,27 @@ import { ApprovalManager } from "../safety/approval.js";
 import { ToolRegistry, createDefaultRegistry } from "../tools/registry.js";
 import { MCPManager } from "../tools/mcp/mcp_manager.js";
 import { ToolDiscoveryManager } from "../tools/discovery.js";
-import { readFileSync, existsSync, mkdirSync } from "fs";
+import {
+  PersistenceManager,
+  SessionSnapshot,
+  SessionState,
+  deriveTitle,
+} from "./persistence.js";
+import { CostTracker } from "./budget.js";
+import { Branch, ConversationTree } from "./history.js";
+import { FileChange, ShadowStore } from "../safety/shadow_store.js";
+import { FileDiff } from "../tools/base.js";
+import { RECALL_TOOL_NAME, RecallOutputTool } from "../tools/builtin/index.js";
+import { StorageCipher, readStoredFile } from "../utils/encryption.js";
+import { TokenUsage } from "../client/response.js";
+import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
 
+// Longer diffs (e.g. whole generated files) are cut when kept for transcripts
+const MAX_STORED_DIFF_CHARS = 50_000;
+// Most recent turns listed with their cache hits in /stats
+const STATS_CACHE_TURNS = 10;
+
 export class Session {
   public client: LLMClient;
   public toolRegistry: ToolRegistry;
@@ -22,23 +45,37 @@ export class Session {
   public approvalManager: ApprovalManager;
   public loopDetector: LoopDetector;
   public hookSystem: HookSystem;
+  public costTracker: CostTracker;
+  public history: ConversationTree = new ConversationTree();
+  public shadowStore: ShadowStore | null;
+  public fileDiffs: Record<string, string> = {};
+  public title: string | null = null;
+  // Created on first autosave, so the encryption key is derived once
+  private persistence: PersistenceManager | null = null;
   public sessionId: string;
   public createdAt: Date;
   public updatedAt: Date;
   public turnCount: number = 0;
+  // Usage of each main-model turn since the session was opened, for /stats
+  public turnUsage: Array<{ turn: number; usage: TokenUsage }> = [];
 
   constructor(public config: Config) {
     this.client = new LLMClient(config);
     this.toolRegistry = createDefaultRegistry(config);
     this.mcpManager = new MCPManager(config);
     this.discoveryManager = new ToolDiscoveryManager(config, this.toolRegistry);
-    this.chatCompactor = new ChatCompactor(this.client);
+    this.chatCompactor = new ChatCompactor(new LLMClient(config, "compaction"));
     this.approvalManager = new ApprovalManager(
       config.approval,
       config.cwd
     );
-    this.loopDetector = new LoopDetector();
+    this.loopDetector = new LoopDetector(config.loopDetection);
     this.hookSystem = new HookSystem(config);
+    this.costTracker = new CostTracker(config);
+    this.shadowStore =
+      config.fileCheckpoints && !config.encryption.enabled
+        ? new ShadowStore(config.cwd, config.fileCheckpointsMaxMb * 1024 * 1024)
+        : null;
     this.sessionId = this.generateUUID();
     this.createdAt = new Date();
     this.updatedAt = new Date();
@@ -66,14 +103,8 @@ export class Session {
       // Reload discovered tools
       await this.discoveryManager.reload();
       
-      // Update context manager with new tools
-      if (this.contextManager) {
-        this.contextManager = new ContextManager(
-          this.config,
-          this.loadMemory(),
-          this.toolRegistry.getTools()
-        );
-      }
+      // Update the tools in place; the conversation stays as it is
+      this.contextManager?.setTools(this.toolRegistry.getTools());
       
       return { success: true, errors: [] };
     } catch (error: any) {
@@ -82,6 +113,228 @@ export class Session {
     }
   }
 
+  toSnapshot(): SessionSnapshot {
+    const toolState: SessionState["toolState"] = {};
+    for (const tool of this.toolRegistry.getTools()) {
+      const state = tool.getState();
+      if (state) {
+        toolState[tool.name] = state;
+      }
+    }
+
+    return new SessionSnapshot(
+      this.sessionId,
+      this.createdAt,
+      this.updatedAt,
+      this.turnCount,
+      this.contextManager?.getMessages() || [],
+      this.contextManager?.totalUsage || new TokenUsage(),
+      this.costTracker.sessionCost,
+      this.title,
+      {
+        toolState,
+        loopHistory: this.loopDetector.getHistory(),
+        settings: {
+          cwd: this.config.cwd,
+          modelName: this.config.model.name,
+          routingMain: this.config.routing.main ?? null,
+          approval: this.config.approval,
+        },
+        history: this.history.toDict(),
+        workspace: null,
+        fileDiffs: this.fileDiffs,
+      }
+    );
+  }
+
+  /**
+   * Summarize all but the most recent turns without touching the context
+   * yet (see applyCompaction). The summary call's cost is recorded here,
+   * since it is spent whether or not the result is applied.
+   */
+  async prepareCompaction(
+    instructions?: string | null,
+    signal?: AbortSignal
+  ): Promise<CompactionResult | null> {
+    const result = await this.chatCompactor.compress(this.contextManager!, {
+      preserveTurns: this.config.compaction.preserveTurns,
+      stateSections: this.workingState(),
+      instructions,
+      signal,
+    });
+
+    if (result?.usage) {
+      this.contextManager!.addUsage(result.usage);
+      this.costTracker.record(result.usage, resolveModelForRole(this.config, "compaction").name);
+    }
+    return result;
+  }
+
+  applyCompaction(result: CompactionResult): void {
+    this.contextManager!.replaceWithSummary(result.summary, result.keepFrom);
+  }
+
+  /** Tools' working state (todos, plan) to carry through compaction. */
+  workingState(): string[] {
+    return this.toolRegistry
+      .getTools()
+      .map((tool) => tool.describeState())
+      .filter((state): state is string => !!state);
+  }
+
+  /** Save after every turn so a crashed session can be resumed. */
+  autosave(): void {
+    if (!this.config.autosave || !this.contextManager || this.turnCount === 0) {
+      return;
+    }
+    try {
+      this.persistence ??= PersistenceManager.fromConfig(this.config);
+      this.persistence.saveSession(this.toSnapshot());
+    } catch {
+      // Autosave is best effort
+    }
+  }
+
+  /** Replay a saved snapshot into this (already initialized) session. */
+  restoreSnapshot(snapshot: SessionSnapshot): void {
+    this.sessionId = snapshot.sessionId;
+    this.createdAt = snapshot.createdAt;
+    this.updatedAt = snapshot.updatedAt;
+    this.turnCount = snapshot.turnCount;
+    this.costTracker.restore(snapshot.totalCost);
+
+    const { toolState, loopHistory, settings } = snapshot.state;
+    for (const [name, state] of Object.entries(toolState)) {
+      this.toolRegistry.get(name)?.setState(state);
+    }
+    this.loopDetector.restoreHistory(loopHistory);
+
+    if (settings) {
+      this.config.model.name = settings.modelName;
+      // A profile may have been removed from config since the save
+      const routingMain = settings.routingMain;
+      if (!routingMain || getProfileNames(this.config).includes(routingMain)) {
+        this.config.routing.main = routingMain ?? undefined;
+      }
+      if (Object.values(ApprovalPolicy).includes(settings.approval as ApprovalPolicy)) {
+        this.config.approval = settings.approval as ApprovalPolicy;
+        this.approvalManager.setApprovalPolicy(this.config.approval);
+      }
+    }
+
+    this.fileDiffs = { ...snapshot.state.fileDiffs };
+    this.title = snapshot.title;
+    this.history = snapshot.state.history
+      ? ConversationTree.fromDict(snapshot.state.history)
+      : ConversationTree.fromMessages(snapshot.messages);
+
+    if (!this.contextManager) {
+      return;
+    }
+
+    this.contextManager.totalUsage = snapshot.totalUsage;
+    this.loadMessages(snapshot.messages);
+  }
+
+  /** Start a branch just before `turnNumber` and load its history. */
+  forkBranch(turnNumber: number, name?: string): Branch {
+    const branch = this.history.fork(turnNumber, name);
+    this.loopDetector.clear();
+    this.loadMessages(this.history.messages());
+    return branch;
+  }
+
+  switchBranch(name: string): Branch {
+    const branch = this.history.switchTo(name);
+    this.loopDetector.clear();
+    this.loadMessages(this.history.messages());
+    return branch;
+  }
+
+  /** Shrink old tool outputs, keeping digested ones for recall_output. */
+  pruneToolOutputs(): void {
+    const pruned = this.contextManager?.pruneToolOutputs() || [];
+    const recall = this.toolRegistry.get(RECALL_TOOL_NAME);
+    if (!(recall instanceof RecallOutputTool)) {
+      return;
+    }
+    const evicted = pruned.flatMap((output) =>
+      recall.store(output.toolCallId, output.content)
+    );
+    if (evicted.length > 0) {
+      this.contextManager!.markOutputsUnrecallable(evicted);
+    }
+  }
+
+  recordDiff(callId: string, diff: FileDiff): void {
+    const text = diff.toDiff();
+    this.fileDiffs[callId] =
+      text.length > MAX_STORED_DIFF_CHARS
+        ? `${text.slice(0, MAX_STORED_DIFF_CHARS)}\n... (diff truncated)\n`
+        : text;
+  }
+
+  /** Snapshot workspace files; null when file checkpoints are unavailable. */
+  async snapshotWorkspace(label: string): Promise<string | null> {
+    if (!this.shadowStore) {
+      return null;
+    }
+    try {
+      return await this.shadowStore.snapshot(label);
+    } catch (error: any) {
+      // No git, or a workspace too large to snapshot: carry on without
+      if (this.config.debug) {
+        console.error(`File checkpoints disabled: ${error.message || error}`);
+      }
+      this.shadowStore = null;
+      return null;
+    }
+  }
+
+  /** Roll back the last `count` turns on this branch, files included. */
+  async undoTurns(count: number): Promise<FileChange[]> {
+    const [target] = this.history.lastTurns(count);
+    const changes =
+      target.workspace && this.shadowStore
+        ? await this.shadowStore.restore(target.workspace)
+        : [];
+
+    this.history.rewind(count);
+    this.loopDetector.clear();
+    this.loadMessages(this.history.messages());
+    return changes;
+  }
+
+  /** Replace the context with `messages`, keeping usage totals. */
+  private loadMessages(messages: Array<Record<string, any>>): void {
+    if (!this.contextManager) {
+      return;
+    }
+
+    this.contextManager.clear();
+
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        continue;
+      } else if (msg.role === "user") {
+        this.contextManager.addUserMessage(msg.content || "");
+      } else if (msg.role === "assistant") {
+        this.contextManager.addAssistantMessage(
+          msg.content || null,
+          msg.tool_calls || null
+        );
+      } else if (msg.role === "tool") {
+        this.contextManager.addToolResult(
+          msg.tool_call_id || "",
+          msg.content || "",
+          msg.is_error === true
+        );
+      }
+    }
+
+    this.history.sync(this.contextManager);
+  }
+
   private loadMemory(): string | null {
     const dataDir = getDataDir();
     try {
@@ -94,8 +347,8 @@ export class Session {
         return null;
       }
 
-      const content = readFileSync(path, "utf-8");
-      const data = JSON.parse(content);
+      const cipher = StorageCipher.fromConfig(this.config.encryption);
+      const data = JSON.parse(readStoredFile(path, cipher).toString("utf-8"));
       const entries = data.entries;
 
       if (!entries || Object.keys(entries).length === 0) {
@@ -113,19 +366,51 @@ export class Session {
     }
   }
 
+  /** Name the session after its first prompt, unless already titled. */
+  ensureTitle(prompt: string): void {
+    if (!this.title) {
+      this.title = deriveTitle(prompt);
+    }
+  }
+
   incrementTurn(): number {
     this.turnCount++;
     this.updatedAt = new Date();
     return this.turnCount;
   }
 
+  /** Count the usage of a main-model response toward this turn and the session. */
+  recordUsage(usage: TokenUsage): void {
+    this.contextManager!.setLatestUsage(usage);
+    this.contextManager!.addUsage(usage);
+    this.costTracker.record(usage, this.client.model.name);
+    this.turnUsage.push({ turn: this.turnCount, usage });
+  }
+
   getStats(): Record<string, any> {
+    const totalUsage = this.contextManager?.totalUsage || new TokenUsage();
+
     return {
       session_id: this.sessionId,
       created_at: this.createdAt.toISOString(),
       turn_count: this.turnCount,
       message_count: this.contextManager?.messageCount || 0,
-      token_usage: this.contextManager?.totalUsage || {},
+      token_usage: totalUsage,
+      cache: {
+        hit_ratio: totalUsage.cacheHitRatio,
+        turns: this.turnUsage.slice(-STATS_CACHE_TURNS).map(({ turn, usage }) => ({
+          turn,
+          prompt_tokens: usage.promptTokens,
+          cached_tokens: usage.cachedTokens,
+          cache_write_tokens: usage.cacheWriteTokens,
+          hit_ratio: usage.cacheHitRatio,
+        })),
+      },
+      cost: {
+        session_usd: this.costTracker.sessionCost,
+        daily_usd: this.costTracker.dailyCost,
+        unpriced_models: Array.from(this.costTracker.unpricedModels),
+      },
       tools_count: this.toolRegistry.getTools().length,
       mcp_servers: this.toolRegistry.connectedMcpServers.length,
     };
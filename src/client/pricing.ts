@@ -0,0 +1,75 @@
+import { Config, ModelPricing } from "../config/config.js";
+import { TokenUsage } from "./response.js";
+
+/**
+ * List prices in USD per million tokens, matched by longest model id
+ * prefix. Providers change these; override or extend them with
+ * `[pricing."model-id"]` tables in config.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  o3: { input: 2, output: 8, cachedInput: 0.5 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-opus-4": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+};
+
+function findByPrefix(
+  table: Record<string, ModelPricing>,
+  model: string
+): ModelPricing | null {
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (model.startsWith(key.toLowerCase()) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/** Price for a model id, preferring config overrides. Null when unknown. */
+export function getModelPricing(config: Config, model: string): ModelPricing | null {
+  const id = model.toLowerCase();
+  // Router ids like "anthropic/claude-sonnet-4" are priced by the bare model id
+  const bare = id.split("/").pop() || id;
+
+  return (
+    findByPrefix(config.pricing, id) ||
+    findByPrefix(config.pricing, bare) ||
+    findByPrefix(DEFAULT_PRICING, bare)
+  );
+}
+
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  // promptTokens includes cache reads and writes (see TokenUsage)
+  const uncachedInput = Math.max(
+    0,
+    usage.promptTokens - usage.cachedTokens - usage.cacheWriteTokens
+  );
+
+  const cost =
+    uncachedInput * pricing.input +
+    usage.cachedTokens * (pricing.cachedInput ?? pricing.input) +
+    usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input) +
+    usage.completionTokens * pricing.output;
+
+  return cost / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,407 @@
+import {
+  StreamEvent,
+  StreamEventType,
+  TextDelta,
+  TokenUsage,
+  ToolCall,
+  ToolCallDelta,
+  parseToolCallArguments,
+} from "../response.js";
+import { ProviderError } from "../../utils/errors.js";
+import { CompletionRequest, LLMProvider } from "./base.js";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Marks the end of a prefix the API should cache (at most four per request)
+const CACHE_BREAKPOINT = { type: "ephemeral" };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: Array<Record<string, any>>;
+}
+
+/**
+ * Convert OpenAI-style chat messages into the Messages API shape: system
+ * prompts move to the top-level `system` field, assistant tool calls become
+ * `tool_use` blocks and tool results become `tool_result` blocks on a user
+ * turn. Consecutive turns with the same role are merged since the API
+ * requires strict user/assistant alternation.
+ */
+export function toAnthropicMessages(messages: Array<Record<string, any>>): {
+  system: string | undefined;
+  messages: AnthropicMessage[];
+} {
+  const systemParts: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  const append = (role: "user" | "assistant", blocks: Array<Record<string, any>>) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    const content = typeof msg.content === "string" ? msg.content : "";
+
+    if (msg.role === "system") {
+      if (content) {
+        systemParts.push(content);
+      }
+    } else if (msg.role === "assistant") {
+      const blocks: Array<Record<string, any>> = [];
+      if (content) {
+        blocks.push({ type: "text", text: content });
+      }
+      for (const tc of msg.tool_calls || []) {
+        const args = tc.function?.arguments;
+        blocks.push({
+          type: "tool_use",
+          id: tc.id,
+          name: tc.function?.name || "",
+          input:
+            typeof args === "string" ? parseToolCallArguments(args) : args || {},
+        });
+      }
+      append("assistant", blocks);
+    } else if (msg.role === "tool") {
+      append("user", [
+        {
+          type: "tool_result",
+          tool_use_id: msg.tool_call_id,
+          content: content || "(no output)",
+          ...(msg.is_error ? { is_error: true } : {}),
+        },
+      ]);
+    } else if (content) {
+      append("user", [{ type: "text", text: content }]);
+    }
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: result,
+  };
+}
+
+export function toAnthropicTools(
+  tools: Array<Record<string, any>>
+): Array<Record<string, any>> {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description || "",
+    input_schema: tool.parameters || { type: "object", properties: {} },
+  }));
+}
+
+function toTokenUsage(usage: Record<string, any>): TokenUsage {
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  const cacheWrite = usage.cache_creation_input_tokens || 0;
+  // Anthropic reports cached tokens separately from input_tokens, while the
+  // rest of the agent expects promptTokens to include them (as OpenAI does)
+  const promptTokens = (usage.input_tokens || 0) + cacheRead + cacheWrite;
+  const completionTokens = usage.output_tokens || 0;
+  return new TokenUsage(
+    promptTokens,
+    completionTokens,
+    promptTokens + completionTokens,
+    cacheRead,
+    cacheWrite
+  );
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+
+  constructor(
+    private apiKey?: string,
+    private baseUrl?: string
+  ) {}
+
+  async close(): Promise<void> {
+    // fetch-based, nothing to release
+  }
+
+  private get endpoint(): string {
+    const base = (this.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    return base.endsWith("/v1") ? `${base}/messages` : `${base}/v1/messages`;
+  }
+
+  private buildBody(request: CompletionRequest): Record<string, any> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const body: Record<string, any> = {
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens || 8192,
+      stream: request.stream,
+    };
+
+    // The API caches tools, then system, then messages as one prefix; a
+    // breakpoint after each lets the tools and system prompt be reused even
+    // when the conversation changed, and the one on the last message lets
+    // the next request reuse this whole conversation
+    if (system) {
+      body.system = [{ type: "text", text: system, cache_control: CACHE_BREAKPOINT }];
+    }
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage && lastMessage.content.length > 0) {
+      const blocks = lastMessage.content;
+      blocks[blocks.length - 1] = {
+        ...blocks[blocks.length - 1],
+        cache_control: CACHE_BREAKPOINT,
+      };
+    }
+    if (request.temperature !== undefined) {
+      // The Messages API accepts 0-1, the config allows up to 2
+      body.temperature = Math.min(request.temperature, 1);
+    }
+    if (request.tools && request.tools.length > 0) {
+      const tools = toAnthropicTools(request.tools);
+      tools[tools.length - 1].cache_control = CACHE_BREAKPOINT;
+      body.tools = tools;
+      body.tool_choice = { type: request.toolChoice || "auto" };
+    }
+
+    return body;
+  }
+
+  private async post(
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.apiKey || "",
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new ProviderError(`Connection failed: ${error.message || error}`, {
+        type: "connection_error",
+        provider: this.name,
+        cause: error,
+      });
+    }
+
+    if (!response.ok) {
+      let message = `HTTP ${response.status}`;
+      try {
+        const data: any = await response.json();
+        if (data?.error?.message) {
+          message = `${message}: ${data.error.message}`;
+        }
+      } catch {
+        // Body was not JSON
+      }
+      throw new ProviderError(message, {
+        status: response.status,
+        provider: this.name,
+      });
+    }
+
+    return response;
+  }
+
+  async *complete(
+    request: CompletionRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const response = await this.post(this.buildBody(request), signal);
+
+    if (request.stream) {
+      yield* this.streamResponse(response, signal);
+    } else {
+      yield* this.nonStreamResponse(response);
+    }
+  }
+
+  private async *readServerSentEvents(
+    response: Response
+  ): AsyncGenerator<{ event: string; data: any }, void, unknown> {
+    if (!response.body) {
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const chunk of response.body as any) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const rawEvent = buffer.substring(0, boundary);
+        buffer = buffer.substring(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        let event = "message";
+        const dataLines: string[] = [];
+        for (const line of rawEvent.split(/\r?\n/)) {
+          if (line.startsWith("event:")) {
+            event = line.substring(6).trim();
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.substring(5).trimStart());
+          }
+        }
+
+        if (dataLines.length === 0) {
+          continue;
+        }
+
+        try {
+          yield { event, data: JSON.parse(dataLines.join("\n")) };
+        } catch {
+          // Ignore malformed events
+        }
+      }
+    }
+  }
+
+  private async *streamResponse(
+    response: Response,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    let usageData: Record<string, any> = {};
+    let finishReason: string | undefined;
+    const toolBlocks: Map<number, { id: string; name: string; json: string }> =
+      new Map();
+
+    try {
+      for await (const { event, data } of this.readServerSentEvents(response)) {
+        const type = data.type || event;
+
+        if (type === "message_start") {
+          usageData = { ...(data.message?.usage || {}) };
+        } else if (type === "content_block_start") {
+          const block = data.content_block || {};
+          if (block.type === "tool_use") {
+            toolBlocks.set(data.index, { id: block.id, name: block.name, json: "" });
+            yield new StreamEvent(
+              StreamEventType.TOOL_CALL_START,
+              undefined,
+              undefined,
+              undefined,
+              new ToolCallDelta(block.id, block.name)
+            );
+          } else if (block.type === "text" && block.text) {
+            yield new StreamEvent(StreamEventType.TEXT_DELTA, new TextDelta(block.text));
+          }
+        } else if (type === "content_block_delta") {
+          const delta = data.delta || {};
+          if (delta.type === "text_delta" && delta.text) {
+            yield new StreamEvent(StreamEventType.TEXT_DELTA, new TextDelta(delta.text));
+          } else if (delta.type === "input_json_delta") {
+            const block = toolBlocks.get(data.index);
+            if (block && delta.partial_json) {
+              block.json += delta.partial_json;
+              yield new StreamEvent(
+                StreamEventType.TOOL_CALL_DELTA,
+                undefined,
+                undefined,
+                undefined,
+                new ToolCallDelta(block.id, block.name, delta.partial_json)
+              );
+            }
+          }
+        } else if (type === "content_block_stop") {
+          const block = toolBlocks.get(data.index);
+          if (block) {
+            yield new StreamEvent(
+              StreamEventType.TOOL_CALL_COMPLETE,
+              undefined,
+              undefined,
+              undefined,
+              undefined,
+              new ToolCall(block.id, block.name, parseToolCallArguments(block.json))
+            );
+          }
+        } else if (type === "message_delta") {
+          if (data.delta?.stop_reason) {
+            finishReason = data.delta.stop_reason;
+          }
+          // message_delta usage counts are cumulative
+          usageData = { ...usageData, ...(data.usage || {}) };
+        } else if (type === "error") {
+          const error = data.error || {};
+          throw new ProviderError(error.message || "Stream error", {
+            status: error.type === "overloaded_error" ? 529 : undefined,
+            type: error.type,
+            provider: this.name,
+          });
+        }
+      }
+    } catch (error) {
+      // Input tokens are billed once the message starts, even if cancelled
+      if (signal?.aborted && Object.keys(usageData).length > 0) {
+        yield new StreamEvent(
+          StreamEventType.MESSAGE_COMPLETE,
+          undefined,
+          undefined,
+          "cancelled",
+          undefined,
+          undefined,
+          toTokenUsage(usageData)
+        );
+      }
+      throw error;
+    }
+
+    yield new StreamEvent(
+      StreamEventType.MESSAGE_COMPLETE,
+      undefined,
+      undefined,
+      finishReason,
+      undefined,
+      undefined,
+      toTokenUsage(usageData)
+    );
+  }
+
+  /** Every tool call as its own event, as when streaming, then the text and usage. */
+  private async *nonStreamResponse(
+    response: Response
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const data: any = await response.json();
+
+    let text = "";
+    for (const block of data.content || []) {
+      if (block.type === "text") {
+        text += block.text;
+      } else if (block.type === "tool_use") {
+        yield new StreamEvent(
+          StreamEventType.TOOL_CALL_COMPLETE,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          new ToolCall(block.id, block.name, block.input || {})
+        );
+      }
+    }
+
+    yield new StreamEvent(
+      StreamEventType.MESSAGE_COMPLETE,
+      text ? new TextDelta(text) : undefined,
+      undefined,
+      data.stop_reason || undefined,
+      undefined,
+      undefined,
+      toTokenUsage(data.usage || {})
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { StreamEvent } from "../response.js";
+
+export interface CompletionRequest {
+  model: string;
+  messages: Array<Record<string, any>>;
+  tools?: Array<Record<string, any>> | null;
+  // "none" keeps the tools defined (history may refer to them) but unusable
+  toolChoice?: "auto" | "none";
+  stream: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * A chat completion backend. Messages and tool schemas arrive in the
+ * OpenAI chat format produced by ContextManager and Tool.toOpenAISchema;
+ * each provider maps them to its own wire format and reports back through
+ * the shared StreamEvent/TokenUsage types.
+ *
+ * Providers throw on failure (a ProviderError, or the SDK's own error with
+ * a `status`) so that LLMClient can apply one retry policy for all of them.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  complete(
+    request: CompletionRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { ResolvedModel } from "../../config/config.js";
+import { LLMProvider } from "./base.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { OpenAIProvider } from "./openai.js";
+import { ScriptedProvider } from "./scripted.js";
+
+export type { CompletionRequest, LLMProvider } from "./base.js";
+
+export function createProvider(model: ResolvedModel): LLMProvider {
+  switch (model.provider) {
+    case "anthropic":
+      return new AnthropicProvider(model.apiKey, model.baseUrl);
+    case "scripted":
+      return new ScriptedProvider(model.fixture);
+    case "openai":
+    default:
+      return new OpenAIProvider(model.apiKey, model.baseUrl);
+  }
+}
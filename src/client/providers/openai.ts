@@ -0,0 +1,243 @@
+import OpenAI from "openai";
+import {
+  StreamEvent,
+  StreamEventType,
+  TextDelta,
+  TokenUsage,
+  ToolCall,
+  ToolCallDelta,
+  parseToolCallArguments,
+} from "../response.js";
+import { CompletionRequest, LLMProvider } from "./base.js";
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai";
+  private client: OpenAI | null = null;
+
+  constructor(
+    private apiKey?: string,
+    private baseUrl?: string
+  ) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.apiKey,
+        baseURL: this.baseUrl,
+      });
+    }
+    return this.client;
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      // OpenAI SDK doesn't have explicit close, but we can nullify
+      this.client = null;
+    }
+  }
+
+  private buildTools(tools: Array<Record<string, any>>): Array<any> {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description || "",
+        parameters:
+          tool.parameters ||
+          ({
+            type: "object",
+            properties: {},
+          } as any),
+      },
+    }));
+  }
+
+  async *complete(
+    request: CompletionRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const client = this.getClient();
+
+    const kwargs: any = {
+      model: request.model,
+      // is_error is our own marker for failed tool results, not an API field
+      messages: request.messages.map(({ is_error, ...message }) => message),
+      stream: request.stream,
+    };
+
+    if (request.temperature !== undefined) {
+      kwargs.temperature = request.temperature;
+    }
+
+    if (request.tools) {
+      kwargs.tools = this.buildTools(request.tools);
+      kwargs.tool_choice = request.toolChoice || "auto";
+    }
+
+    if (request.stream) {
+      yield* this.streamResponse(client, kwargs, signal);
+    } else {
+      yield* this.nonStreamResponse(client, kwargs, signal);
+    }
+  }
+
+  private async *streamResponse(
+    client: OpenAI,
+    kwargs: any,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const stream = await client.chat.completions.create(kwargs, { signal }) as any;
+
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    const toolCalls: Map<number, any> = new Map();
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = new TokenUsage(
+          chunk.usage.prompt_tokens,
+          chunk.usage.completion_tokens,
+          chunk.usage.total_tokens,
+          (chunk.usage as any).prompt_tokens_details?.cached_tokens || 0
+        );
+      }
+
+      if (!chunk.choices || chunk.choices.length === 0) {
+        continue;
+      }
+
+      const choice = chunk.choices[0];
+      const delta = choice.delta;
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      if (delta.content) {
+        yield new StreamEvent(
+          StreamEventType.TEXT_DELTA,
+          new TextDelta(delta.content)
+        );
+      }
+
+      if (delta.tool_calls) {
+        for (const toolCallDelta of delta.tool_calls) {
+          const idx = toolCallDelta.index;
+
+          if (!toolCalls.has(idx)) {
+            toolCalls.set(idx, {
+              id: toolCallDelta.id || "",
+              name: "",
+              arguments: "",
+            });
+
+            if (toolCallDelta.function?.name) {
+              toolCalls.get(idx)!.name = toolCallDelta.function.name;
+              yield new StreamEvent(
+                StreamEventType.TOOL_CALL_START,
+                undefined,
+                undefined,
+                undefined,
+                new ToolCallDelta(toolCalls.get(idx)!.id, toolCallDelta.function.name)
+              );
+            }
+          }
+
+          if (toolCallDelta.function?.arguments) {
+            toolCalls.get(idx)!.arguments += toolCallDelta.function.arguments;
+            yield new StreamEvent(
+              StreamEventType.TOOL_CALL_DELTA,
+              undefined,
+              undefined,
+              undefined,
+              new ToolCallDelta(
+                toolCalls.get(idx)!.id,
+                toolCallDelta.function.name,
+                toolCallDelta.function.arguments
+              )
+            );
+          }
+        }
+      }
+    }
+
+    for (const [, tc] of toolCalls) {
+      yield new StreamEvent(
+        StreamEventType.TOOL_CALL_COMPLETE,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        new ToolCall(
+          tc.id,
+          tc.name,
+          parseToolCallArguments(tc.arguments || "")
+        )
+      );
+    }
+
+    yield new StreamEvent(
+      StreamEventType.MESSAGE_COMPLETE,
+      undefined,
+      undefined,
+      finishReason,
+      undefined,
+      undefined,
+      usage
+    );
+  }
+
+  /** Every tool call as its own event, as when streaming, then the text and usage. */
+  private async *nonStreamResponse(
+    client: OpenAI,
+    kwargs: any,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const response = await client.chat.completions.create(
+      {
+        ...kwargs,
+        stream: false,
+      },
+      { signal }
+    );
+
+    const choice = response.choices[0];
+    const message = choice.message;
+
+    let textDelta: TextDelta | undefined;
+    if (message.content) {
+      textDelta = new TextDelta(message.content);
+    }
+
+    for (const tc of message.tool_calls || []) {
+      yield new StreamEvent(
+        StreamEventType.TOOL_CALL_COMPLETE,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        new ToolCall(tc.id, tc.function.name, parseToolCallArguments(tc.function.arguments || ""))
+      );
+    }
+
+    let usage: TokenUsage | undefined;
+    if (response.usage) {
+      usage = new TokenUsage(
+        response.usage.prompt_tokens,
+        response.usage.completion_tokens,
+        response.usage.total_tokens,
+        (response.usage as any).prompt_tokens_details?.cached_tokens || 0
+      );
+    }
+
+    yield new StreamEvent(
+      StreamEventType.MESSAGE_COMPLETE,
+      textDelta,
+      undefined,
+      choice.finish_reason || undefined,
+      undefined,
+      undefined,
+      usage
+    );
+  }
+}
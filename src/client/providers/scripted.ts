@@ -0,0 +1,265 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import {
+  StreamEvent,
+  StreamEventType,
+  TextDelta,
+  TokenUsage,
+  ToolCall,
+  ToolCallDelta,
+  parseToolCallArguments,
+} from "../response.js";
+import { ConfigError, ProviderError } from "../../utils/errors.js";
+import { CompletionRequest, LLMProvider } from "./base.js";
+
+const ScriptedToolCallSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  arguments: z.record(z.any()).optional(),
+  // Sent verbatim instead of `arguments`, e.g. to replay malformed JSON
+  rawArguments: z.string().optional(),
+});
+
+const ScriptedResponseSchema = z.object({
+  // A string is sent as one delta, an array as one delta per element
+  text: z.union([z.string(), z.array(z.string())]).optional(),
+  toolCalls: z.array(ScriptedToolCallSchema).default([]),
+  usage: z
+    .object({
+      promptTokens: z.number().default(0),
+      completionTokens: z.number().default(0),
+      cachedTokens: z.number().default(0),
+      cacheWriteTokens: z.number().default(0),
+    })
+    .optional(),
+  finishReason: z.string().optional(),
+  // Thrown after any text/tool output, e.g. {status: 429} to exercise retries
+  error: z
+    .object({
+      message: z.string().default("Scripted error"),
+      status: z.number().optional(),
+      type: z.string().optional(),
+    })
+    .optional(),
+  // Pause before responding, so tests can cancel mid-request
+  delayMs: z.number().int().min(0).default(0),
+});
+
+const ScriptedFixtureSchema = z.object({
+  responses: z.array(ScriptedResponseSchema),
+});
+
+export type ScriptedResponse = z.input<typeof ScriptedResponseSchema>;
+export type ScriptedFixtureData = z.input<typeof ScriptedFixtureSchema>;
+
+/**
+ * A fixture file replayed one response per completion request. Every
+ * provider reading the same file shares one cursor, so a single script
+ * covers the main loop, compaction and subagents in call order.
+ */
+export class ScriptedFixture {
+  private static loaded: Map<string, ScriptedFixture> = new Map();
+
+  readonly requests: CompletionRequest[] = [];
+  private cursor = 0;
+
+  private constructor(
+    readonly path: string,
+    private responses: Array<z.output<typeof ScriptedResponseSchema>>
+  ) {}
+
+  static load(path: string): ScriptedFixture {
+    const existing = ScriptedFixture.loaded.get(path);
+    if (existing) {
+      return existing;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error: any) {
+      throw new ConfigError(`Failed to read scripted fixture ${path}: ${error.message}`, {
+        configKey: "model.fixture",
+        cause: error,
+      });
+    }
+
+    const parsed = ScriptedFixtureSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new ConfigError(`Invalid scripted fixture ${path}: ${parsed.error.message}`, {
+        configKey: "model.fixture",
+      });
+    }
+
+    const fixture = new ScriptedFixture(path, parsed.data.responses);
+    ScriptedFixture.loaded.set(path, fixture);
+    return fixture;
+  }
+
+  /** Forget a loaded fixture so the next load re-reads it from disk. */
+  static unload(path: string): void {
+    ScriptedFixture.loaded.delete(path);
+  }
+
+  get remaining(): number {
+    return this.responses.length - this.cursor;
+  }
+
+  next(request: CompletionRequest): z.output<typeof ScriptedResponseSchema> {
+    this.requests.push(request);
+    const response = this.responses[this.cursor];
+    if (!response) {
+      throw new ProviderError(
+        `Scripted fixture exhausted after ${this.cursor} responses: ${this.path}`,
+        { provider: "scripted" }
+      );
+    }
+    this.cursor++;
+    return response;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Offline provider that replays a fixture instead of calling an API,
+ * for deterministic end-to-end runs of the agent loop.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  private fixture: ScriptedFixture;
+
+  constructor(fixturePath?: string) {
+    if (!fixturePath) {
+      throw new ConfigError("The scripted provider requires 'fixture' to be set", {
+        configKey: "model.fixture",
+      });
+    }
+    this.fixture = ScriptedFixture.load(fixturePath);
+  }
+
+  async close(): Promise<void> {
+    // Fixture state outlives the provider so a recreated client continues the script
+  }
+
+  async *complete(
+    request: CompletionRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const response = this.fixture.next(request);
+
+    if (response.delayMs > 0) {
+      await wait(response.delayMs, signal);
+    }
+
+    const chunks =
+      response.text === undefined
+        ? []
+        : Array.isArray(response.text)
+          ? response.text
+          : [response.text];
+    const toolCalls = response.toolCalls.map((tc, index) => {
+      const args = tc.rawArguments ?? JSON.stringify(tc.arguments || {});
+      return {
+        id: tc.id || `call_${this.fixture.requests.length}_${index}`,
+        name: tc.name,
+        args,
+      };
+    });
+
+    if (request.stream) {
+      for (const chunk of chunks) {
+        yield new StreamEvent(StreamEventType.TEXT_DELTA, new TextDelta(chunk));
+      }
+
+      for (const tc of toolCalls) {
+        yield new StreamEvent(
+          StreamEventType.TOOL_CALL_START,
+          undefined,
+          undefined,
+          undefined,
+          new ToolCallDelta(tc.id, tc.name)
+        );
+        yield new StreamEvent(
+          StreamEventType.TOOL_CALL_DELTA,
+          undefined,
+          undefined,
+          undefined,
+          new ToolCallDelta(tc.id, tc.name, tc.args)
+        );
+        yield new StreamEvent(
+          StreamEventType.TOOL_CALL_COMPLETE,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          new ToolCall(tc.id, tc.name, parseToolCallArguments(tc.args))
+        );
+      }
+    }
+
+    if (response.error) {
+      throw new ProviderError(response.error.message, {
+        status: response.error.status,
+        type: response.error.type,
+        provider: this.name,
+      });
+    }
+
+    const usage = response.usage
+      ? new TokenUsage(
+          response.usage.promptTokens,
+          response.usage.completionTokens,
+          response.usage.promptTokens + response.usage.completionTokens,
+          response.usage.cachedTokens,
+          response.usage.cacheWriteTokens
+        )
+      : new TokenUsage();
+    const finishReason =
+      response.finishReason || (toolCalls.length > 0 ? "tool_calls" : "stop");
+
+    if (request.stream) {
+      yield new StreamEvent(
+        StreamEventType.MESSAGE_COMPLETE,
+        undefined,
+        undefined,
+        finishReason,
+        undefined,
+        undefined,
+        usage
+      );
+    } else {
+      for (const tc of toolCalls) {
+        yield new StreamEvent(
+          StreamEventType.TOOL_CALL_COMPLETE,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          new ToolCall(tc.id, tc.name, parseToolCallArguments(tc.args))
+        );
+      }
+      yield new StreamEvent(
+        StreamEventType.MESSAGE_COMPLETE,
+        chunks.length > 0 ? new TextDelta(chunks.join("")) : undefined,
+        undefined,
+        finishReason,
+        undefined,
+        undefined,
+        usage
+      );
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { repairJson } from "../utils/json_repair.js";
+
 export class TextDelta {
   constructor(public content: string) {}
 
@@ -20,7 +22,8 @@ export class TokenUsage {
     public promptTokens: number = 0,
     public completionTokens: number = 0,
     public totalTokens: number = 0,
-    public cachedTokens: number = 0
+    public cachedTokens: number = 0,
+    public cacheWriteTokens: number = 0
   ) {}
 
   add(other: TokenUsage): TokenUsage {
@@ -28,9 +31,15 @@ export class TokenUsage {
       this.promptTokens + other.promptTokens,
       this.completionTokens + other.completionTokens,
       this.totalTokens + other.totalTokens,
-      this.cachedTokens + other.cachedTokens
+      this.cachedTokens + other.cachedTokens,
+      this.cacheWriteTokens + other.cacheWriteTokens
     );
   }
+
+  /** Share of the prompt read from the provider's cache; null without a prompt. */
+  get cacheHitRatio(): number | null {
+    return this.promptTokens > 0 ? this.cachedTokens / this.promptTokens : null;
+  }
 }
 
 export class ToolCallDelta {
@@ -77,16 +86,53 @@ export class ToolResultMessage {
   }
 }
 
+// Holds arguments that could not be parsed even after repair
+export const RAW_ARGUMENTS_KEY = "raw_arguments";
+
+function parseObject(text: string): Record<string, any> | null {
+  try {
+    let parsed = JSON.parse(text);
+    // Arguments encoded twice arrive as a JSON string
+    if (typeof parsed === "string") {
+      parsed = JSON.parse(parsed);
+    }
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// JSON repairs made while parsing, keyed by the parsed arguments object
+const jsonRepairs = new WeakMap<Record<string, any>, string[]>();
+
+/** Repairs `parseToolCallArguments` made to produce `args`, if any. */
+export function jsonRepairsOf(args: Record<string, any>): string[] {
+  return jsonRepairs.get(args) || [];
+}
+
+/**
+ * Parse the arguments of a tool call, repairing near-JSON if needed.
+ * Anything still unparseable, and arguments that were cut off (e.g. at
+ * max_tokens), are passed on under RAW_ARGUMENTS_KEY so the tool registry
+ * can tell the model what went wrong instead of running a partial call.
+ */
 export function parseToolCallArguments(
   argumentsStr: string
 ): Record<string, any> {
-  if (!argumentsStr) {
+  if (!argumentsStr || !argumentsStr.trim()) {
     return {};
   }
 
-  try {
-    return JSON.parse(argumentsStr);
-  } catch {
-    return { raw_arguments: argumentsStr };
+  const parsed = parseObject(argumentsStr);
+  if (parsed) {
+    return parsed;
+  }
+
+  const repaired = repairJson(argumentsStr);
+  const args = repaired.truncated ? null : parseObject(repaired.text);
+  if (!args) {
+    return { [RAW_ARGUMENTS_KEY]: argumentsStr };
   }
+  jsonRepairs.set(args, repaired.repairs);
+  return args;
 }
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { resolve } from "path";
 import { existsSync } from "fs";
+import { ConfigError } from "../utils/errors.js";
 
 export enum ApprovalPolicy {
   ON_REQUEST = "on-request",
@@ -19,10 +20,92 @@ export enum HookTrigger {
   ON_ERROR = "on_error",
 }
 
+// "scripted" replays a fixture file instead of calling an API (offline tests)
+const ProviderSchema = z.enum(["openai", "anthropic", "scripted"]);
+
 const ModelConfigSchema = z.object({
+  provider: ProviderSchema.default("openai"),
   name: z.string().default("mistralai/devstral-2512:free"),
   temperature: z.number().min(0).max(2).default(1),
   contextWindow: z.number().default(256_000),
+  maxTokens: z.number().int().positive().optional(),
+  // Fixture file for the scripted provider, relative to cwd
+  fixture: z.string().optional(),
+});
+
+// Named model profile, e.g. [profiles.cheap]. Unset fields fall back to [model].
+const ModelProfileSchema = z.object({
+  provider: ProviderSchema.optional(),
+  name: z.string(),
+  baseUrl: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  contextWindow: z.number().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  fixture: z.string().optional(),
+});
+
+// Which profile serves each role; unset roles use the main model
+const ModelRoutingSchema = z.object({
+  main: z.string().optional(),
+  compaction: z.string().optional(),
+  subagent: z.string().optional(),
+});
+
+// USD per million tokens; cached/cache-write rates default to `input`
+const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cachedInput: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
+// Spending limits in USD. Soft limits ask before continuing, hard limits stop.
+const BudgetConfigSchema = z.object({
+  sessionSoft: z.number().positive().optional(),
+  sessionHard: z.number().positive().optional(),
+  dailySoft: z.number().positive().optional(),
+  dailyHard: z.number().positive().optional(),
+});
+
+// Limits on stored sessions and checkpoints, enforced at startup; 0 disables a limit
+const RetentionConfigSchema = z.object({
+  maxAgeDays: z.number().min(0).default(90),
+  maxSessions: z.number().int().min(0).default(200),
+  maxTotalMb: z.number().min(0).default(500),
+  keepPinned: z.boolean().default(true),
+  // Snapshots untouched for this long are stored gzipped
+  compressAfterDays: z.number().min(0).default(7),
+});
+
+// How the context is shrunk when it nears the model's context window
+const CompactionConfigSchema = z.object({
+  // Most recent turns kept word for word; only older ones are summarized
+  preserveTurns: z.number().int().min(0).default(2),
+  // What replaces large old tool outputs between compactions: "digest" keeps
+  // a tool-aware summary and the original for recall_output, "clear" drops them
+  pruneStrategy: z.enum(["digest", "clear"]).default("digest"),
+});
+
+// When the agent counts as stuck; each limit is a number of actions in a row
+const LoopDetectionConfigSchema = z.object({
+  maxExactRepeats: z.number().int().min(2).default(3),
+  maxCycleLength: z.number().int().min(2).default(3),
+  // Same tool with arguments at least this similar (0-1) counts as a repeat
+  maxSimilarCalls: z.number().int().min(2).default(4),
+  similarityThreshold: z.number().min(0).max(1).default(0.85),
+  maxFailedEdits: z.number().int().min(2).default(3),
+  // Read then edit of one file, this many times over
+  maxReadEditCycles: z.number().int().min(2).default(3),
+  maxRepeatedErrors: z.number().int().min(2).default(3),
+});
+
+// At-rest encryption of sessions, checkpoints and memory; the key comes from
+// keyFile if set, otherwise from the passphrase in the passphraseEnv variable
+const EncryptionConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  keyFile: z.string().optional(),
+  passphraseEnv: z.string().default("AI_AGENT_PASSPHRASE"),
 });
 
 const ShellEnvironmentPolicySchema = z.object({
@@ -86,16 +169,35 @@ const SubagentConfigSchema = z.object({
   allowedTools: z.array(z.string()).optional(),
   maxTurns: z.number().optional(),
   timeoutSeconds: z.number().optional(),
+  profile: z.string().optional(),
 });
 
 const ConfigSchema = z.object({
   model: ModelConfigSchema.default({}),
+  profiles: z.record(ModelProfileSchema).default({}),
+  routing: ModelRoutingSchema.default({}),
+  // Keyed by model id or id prefix; overrides the built-in price table
+  pricing: z.record(ModelPricingSchema).default({}),
+  budget: BudgetConfigSchema.default({}),
+  retention: RetentionConfigSchema.default({}),
+  encryption: EncryptionConfigSchema.default({}),
+  compaction: CompactionConfigSchema.default({}),
+  loopDetection: LoopDetectionConfigSchema.default({}),
   cwd: z.string().default(process.cwd()),
   shellEnvironment: ShellEnvironmentPolicySchema.default({}),
   hooksEnabled: z.boolean().default(false),
   hooks: z.array(HookConfigSchema).default([]),
   approval: z.nativeEnum(ApprovalPolicy).default(ApprovalPolicy.ON_REQUEST),
   maxTurns: z.number().default(100),
+  // Maximum number of read-only tool calls executed concurrently per turn
+  toolConcurrency: z.number().int().min(1).default(4),
+  // Save the session after every turn so it can be resumed after a crash
+  autosave: z.boolean().default(true),
+  // Snapshot workspace files before each turn so /undo and /restore can roll them back.
+  // Only inside a git work tree, and off when encryption is on (snapshots are plain git objects)
+  fileCheckpoints: z.boolean().default(true),
+  // Skip checkpoints when the workspace files add up to more than this; 0 disables the limit
+  fileCheckpointsMaxMb: z.number().min(0).default(100),
   mcpServers: z.record(MCPServerConfigSchema).default({}),
   subagents: z.array(SubagentConfigSchema).optional(),
   allowedTools: z.array(z.string()).optional(),
@@ -108,6 +210,15 @@ const ConfigSchema = z.object({
 });
 
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+export type ProviderName = ModelConfig["provider"];
+export type ModelProfile = z.infer<typeof ModelProfileSchema>;
+export type ModelRouting = z.infer<typeof ModelRoutingSchema>;
+export type ModelRole = keyof ModelRouting;
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+export type RetentionConfig = z.infer<typeof RetentionConfigSchema>;
+export type EncryptionConfig = z.infer<typeof EncryptionConfigSchema>;
+export type LoopDetectionConfig = z.infer<typeof LoopDetectionConfigSchema>;
 export type ShellEnvironmentPolicy = z.infer<typeof ShellEnvironmentPolicySchema>;
 export type MCPServerConfig = z.infer<typeof MCPServerConfigSchema>;
 export type HookConfig = z.infer<typeof HookConfigSchema>;
@@ -119,14 +230,28 @@ export type Config = z.infer<typeof ConfigSchema> & {
   temperature: number;
 };
 
+function getEnvApiKey(provider: ProviderName): string | undefined {
+  if (provider === "anthropic") {
+    return process.env.ANTHROPIC_API_KEY || process.env.API_KEY;
+  }
+  // Support both API_KEY and OPENAI_API_KEY for compatibility
+  return process.env.API_KEY || process.env.OPENAI_API_KEY;
+}
+
+function getEnvBaseUrl(provider: ProviderName): string | undefined {
+  if (provider === "anthropic") {
+    return process.env.ANTHROPIC_BASE_URL;
+  }
+  // Support both BASE_URL and OPENAI_API_BASE_URL for compatibility
+  return process.env.BASE_URL || process.env.OPENAI_API_BASE_URL;
+}
+
 export function createConfig(data: any): Config {
   const parsed = ConfigSchema.parse(data);
   
   // Priority: config file > environment variable
-  // Support both API_KEY and OPENAI_API_KEY for compatibility
-  const apiKey = parsed.apiKey || process.env.API_KEY || process.env.OPENAI_API_KEY;
-  // Support both BASE_URL and OPENAI_API_BASE_URL for compatibility
-  const baseUrl = parsed.baseUrl || process.env.BASE_URL || process.env.OPENAI_API_BASE_URL;
+  const apiKey = parsed.apiKey || getEnvApiKey(parsed.model.provider);
+  const baseUrl = parsed.baseUrl || getEnvBaseUrl(parsed.model.provider);
   
   return {
     ...parsed,
@@ -134,7 +259,7 @@ export function createConfig(data: any): Config {
     apiKey,
     baseUrl,
     get modelName(): string {
-      return this.model.name;
+      return resolveModelForRole(this, "main").name;
     },
     set modelName(value: string) {
       this.model.name = value;
@@ -148,18 +273,151 @@ export function createConfig(data: any): Config {
   };
 }
 
+/**
+ * Independent copy of a config, for sessions that share a process but must
+ * not see each other's /model, /approval or resumed settings.
+ */
+export function cloneConfig(config: Config): Config {
+  return createConfig(structuredClone({ ...config }));
+}
+
+export const DEFAULT_PROFILE = "default";
+
+/** A model profile with every fallback applied, ready to build a client from. */
+export interface ResolvedModel {
+  profile: string;
+  provider: ProviderName;
+  name: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature: number;
+  contextWindow: number;
+  maxTokens?: number;
+  fixture?: string;
+}
+
+export function getProfileNames(config: Config): string[] {
+  return [DEFAULT_PROFILE, ...Object.keys(config.profiles)];
+}
+
+export function resolveModel(config: Config, profileName?: string): ResolvedModel {
+  const base: ResolvedModel = {
+    profile: DEFAULT_PROFILE,
+    provider: config.model.provider,
+    name: config.model.name,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    temperature: config.model.temperature,
+    contextWindow: config.model.contextWindow,
+    maxTokens: config.model.maxTokens,
+    fixture: config.model.fixture ? resolve(config.cwd, config.model.fixture) : undefined,
+  };
+
+  if (!profileName || profileName === DEFAULT_PROFILE) {
+    return base;
+  }
+
+  const profile = config.profiles[profileName];
+  if (!profile) {
+    throw new ConfigError(`Unknown model profile: ${profileName}`, {
+      configKey: "profiles",
+    });
+  }
+
+  const provider = profile.provider || base.provider;
+  const sameProvider = provider === base.provider;
+  const apiKey = profile.apiKeyEnv
+    ? process.env[profile.apiKeyEnv]
+    : sameProvider
+      ? base.apiKey
+      : getEnvApiKey(provider);
+
+  return {
+    profile: profileName,
+    provider,
+    name: profile.name,
+    apiKey,
+    baseUrl: profile.baseUrl || (sameProvider ? base.baseUrl : getEnvBaseUrl(provider)),
+    temperature: profile.temperature ?? base.temperature,
+    contextWindow: profile.contextWindow ?? base.contextWindow,
+    maxTokens: profile.maxTokens ?? base.maxTokens,
+    fixture: profile.fixture ? resolve(config.cwd, profile.fixture) : base.fixture,
+  };
+}
+
+export function resolveModelForRole(config: Config, role: ModelRole): ResolvedModel {
+  const profileName =
+    config.routing[role] || (role === "main" ? undefined : config.routing.main);
+  return resolveModel(config, profileName);
+}
+
+/**
+ * Switch the main model. Profile names take precedence; anything else is
+ * treated as a raw model ID for the default profile.
+ */
+export function switchMainModel(config: Config, nameOrId: string): ResolvedModel {
+  if (nameOrId === DEFAULT_PROFILE || nameOrId in config.profiles) {
+    config.routing.main = nameOrId;
+  } else {
+    config.routing.main = undefined;
+    config.model.name = nameOrId;
+  }
+  return resolveModelForRole(config, "main");
+}
+
 export function validateConfig(config: Config): string[] {
   const errors: string[] = [];
 
-  if (!config.apiKey) {
-    errors.push(
-      "No API key found. Set 'apiKey' in config file or API_KEY environment variable"
-    );
+  for (const [role, profileName] of Object.entries(config.routing)) {
+    if (profileName && profileName !== DEFAULT_PROFILE && !(profileName in config.profiles)) {
+      errors.push(`Routing for '${role}' refers to unknown profile: ${profileName}`);
+    }
+  }
+
+  for (const subagent of config.subagents || []) {
+    if (subagent.profile && subagent.profile !== DEFAULT_PROFILE && !(subagent.profile in config.profiles)) {
+      errors.push(`Subagent '${subagent.name}' refers to unknown profile: ${subagent.profile}`);
+    }
+  }
+
+  // Unused profiles may name keys that are not set on this machine
+  const usedProfiles = new Set([
+    ...Object.values(config.routing),
+    ...(config.subagents || []).map((subagent) => subagent.profile),
+  ]);
+  for (const [profileName, profile] of Object.entries(config.profiles)) {
+    if (usedProfiles.has(profileName) && profile.apiKeyEnv && !process.env[profile.apiKeyEnv]) {
+      errors.push(
+        `Profile '${profileName}' reads its API key from ${profile.apiKeyEnv}, which is not set`
+      );
+    }
+  }
+
+  if (errors.length === 0) {
+    const main = resolveModelForRole(config, "main");
+    if (main.provider === "scripted") {
+      if (!main.fixture) {
+        errors.push("The scripted provider requires 'fixture' to be set");
+      }
+    } else if (!main.apiKey) {
+      errors.push(
+        "No API key found. Set 'apiKey' in config file or API_KEY environment variable"
+      );
+    }
   }
 
   if (!existsSync(config.cwd)) {
     errors.push(`Working directory does not exist: ${config.cwd}`);
   }
 
+  const { encryption } = config;
+  if (encryption.enabled && !encryption.keyFile && !process.env[encryption.passphraseEnv]) {
+    errors.push(
+      `Encryption is enabled but neither 'encryption.keyFile' nor ${encryption.passphraseEnv} is set`
+    );
+  } else if (encryption.enabled && encryption.keyFile && !existsSync(encryption.keyFile)) {
+    errors.push(`Encryption key file does not exist: ${encryption.keyFile}`);
+  }
+
   return errors;
 }
@@ -102,17 +102,30 @@ function mergeDicts(
   return result;
 }
 
+// Tables keyed by user-chosen names; their keys are referenced elsewhere
+// (e.g. routing.main = "fast_model") or are model ids, and must not be renamed
+const NAMED_TABLES = new Set(["profiles", "pricing"]);
+
 // Convert snake_case to camelCase for compatibility
-function normalizeConfigKeys(config: Record<string, any>): Record<string, any> {
+function normalizeConfigKeys(
+  config: Record<string, any>,
+  preserveKeys: boolean = false
+): Record<string, any> {
   const normalized: Record<string, any> = {};
   
   for (const [key, value] of Object.entries(config)) {
     // Convert snake_case to camelCase
-    const camelKey = key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+    const camelKey = preserveKeys
+      ? key
+      : key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
     
     // Recursively normalize nested objects
     if (value && typeof value === "object" && !Array.isArray(value)) {
-      normalized[camelKey] = normalizeConfigKeys(value);
+      if (NAMED_TABLES.has(camelKey) && !preserveKeys) {
+        normalized[camelKey] = normalizeConfigKeys(value, true);
+      } else {
+        normalized[camelKey] = normalizeConfigKeys(value);
+      }
     } else {
       normalized[camelKey] = value;
     }
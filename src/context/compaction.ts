@@ -2,80 +2,225 @@ import { LLMClient } from "../client/llm_client.js";
 import { StreamEventType, TokenUsage } from "../client/response.js";
 import { ContextManager } from "./manager.js";
 import { getCompressionPrompt } from "../prompts/system.js";
+import { countTokens } from "../utils/text.js";
+
+// Room left in the compaction model's window for the prompt and the summary
+const RESERVED_TOKENS = 8_000;
+// No tool output is cut below this before other messages are cut too
+const MIN_TOOL_OUTPUT_CHARS = 200;
+// Later attempts get this share of the previous attempt's input
+const RETRY_SHRINK = 0.25;
+const MAX_ATTEMPTS = 2;
+
+const FILE_READING_TOOLS = new Set(["read_file"]);
+const FILE_WRITING_TOOLS = new Set(["write_file", "edit"]);
+const ENTRY_SEPARATOR = "\n\n---\n\n";
+
+export interface CompactionOptions {
+  // Most recent turns kept word for word
+  preserveTurns: number;
+  // Working state (todos, plan) carried into the summary as is
+  stateSections?: string[];
+  // Extra guidance from the user, e.g. what details to keep
+  instructions?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+  summary: string;
+  usage: TokenUsage | null;
+  // Messages before this index are summarized; the rest are kept
+  keepFrom: number;
+  // Summary calls made; `fallback` means all failed and a local summary is used
+  attempts: number;
+  fallback: boolean;
+}
+
+interface HistoryEntry {
+  heading: string;
+  text: string;
+  isToolOutput: boolean;
+}
+
+/** Longest length such that capping every text to it fits `budget` chars. */
+function fitCap(lengths: number[], budget: number): number {
+  const sorted = [...lengths].sort((a, b) => a - b);
+  let remaining = budget;
+  for (let i = 0; i < sorted.length; i++) {
+    const cap = Math.floor(remaining / (sorted.length - i));
+    if (sorted[i] > cap) {
+      return cap;
+    }
+    remaining -= sorted[i];
+  }
+  return Infinity;
+}
+
+/** Keep the start and end of `text`, which usually matter most. */
+function clip(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const head = Math.floor(maxChars * 0.7);
+  const tail = maxChars - head;
+  return (
+    text.slice(0, head) +
+    `\n... [${text.length - head - tail} characters omitted] ...\n` +
+    (tail > 0 ? text.slice(text.length - tail) : "")
+  );
+}
 
 export class ChatCompactor {
   constructor(private client: LLMClient) {}
 
-  private formatHistoryForCompaction(
-    messages: Array<Record<string, any>>
-  ): string {
-    const output: string[] = [
-      "Here is the conversation that needs to be continue: \n",
-    ];
+  private historyEntries(messages: Array<Record<string, any>>): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+    const toolNames = new Map<string, string>();
 
     for (const msg of messages) {
-      const role = msg.role || "";
-      const content = msg.content || "";
+      const content: string = msg.content || "";
 
-      if (role === "system") {
-        continue;
-      }
-
-      if (role === "tool") {
-        const toolId = msg.tool_call_id || "unknown";
-        const truncated =
-          content.length > 2000 ? content.substring(0, 2000) : content;
-        const suffix = content.length > 2000 ? "\n... [tool output truncated]" : "";
-        output.push(`[Tool Result (${toolId})]:\n${truncated}${suffix}`);
-      } else if (role === "assistant") {
-        const toolDetails: string[] = [];
+      if (msg.role === "tool") {
+        const name = toolNames.get(msg.tool_call_id) || "unknown";
+        entries.push({ heading: `[Tool Result (${name})]`, text: content, isToolOutput: true });
+      } else if (msg.role === "assistant") {
         if (content) {
-          const truncated =
-            content.length > 3000 ? content.substring(0, 3000) : content;
-          const suffix = content.length > 3000 ? "\n... [response truncated]" : "";
-          output.push(`Assistant:\n${truncated}${suffix}`);
+          entries.push({ heading: "Assistant", text: content, isToolOutput: false });
+        }
+        for (const tc of msg.tool_calls || []) {
+          const name = tc.function?.name || "unknown";
+          toolNames.set(tc.id, name);
+          // Arguments (e.g. written file contents) are cut like tool output
+          entries.push({
+            heading: `Assistant called ${name}`,
+            text: tc.function?.arguments || "{}",
+            isToolOutput: true,
+          });
         }
+      } else if (msg.role === "user") {
+        entries.push({ heading: "User", text: content, isToolOutput: false });
+      }
+    }
 
-        if (msg.tool_calls) {
-          for (const tc of msg.tool_calls) {
-            const func = tc.function || {};
-            const name = func.name || "unknown";
-            let args = func.arguments || "{}";
-            if (typeof args === "string" && args.length > 500) {
-              args = args.substring(0, 500);
-            }
-            toolDetails.push(`  - ${name}(${args})`);
-          }
-          output.push("Assistant called tools:\n" + toolDetails.join("\n"));
+    return entries;
+  }
+
+  /**
+   * The history as text of at most `budgetTokens`. Tool outputs are cut
+   * first, evenly from the longest down; other messages only if that is
+   * not enough.
+   */
+  private formatHistoryForCompaction(
+    messages: Array<Record<string, any>>,
+    budgetTokens: number
+  ): string {
+    const entries = this.historyEntries(messages);
+    const full = entries.map((e) => `${e.heading}:\n${e.text}`).join(ENTRY_SEPARATOR);
+    const fullTokens = countTokens(full, this.client.model.name);
+    if (fullTokens <= budgetTokens) {
+      return full;
+    }
+    // Cut in characters, at this history's own characters per token
+    const budget = Math.floor((budgetTokens * full.length) / fullTokens);
+
+    const otherChars = entries
+      .filter((e) => !e.isToolOutput)
+      .reduce((sum, e) => sum + e.text.length, 0);
+    const toolCap = Math.max(
+      MIN_TOOL_OUTPUT_CHARS,
+      fitCap(
+        entries.filter((e) => e.isToolOutput).map((e) => e.text.length),
+        budget - otherChars
+      )
+    );
+    const capped = entries.map((e) =>
+      e.isToolOutput ? { ...e, text: clip(e.text, toolCap) } : e
+    );
+    const allCap = fitCap(
+      capped.map((e) => e.text.length),
+      budget
+    );
+
+    return capped
+      .map((e) => `${e.heading}:\n${clip(e.text, allCap)}`)
+      .join(ENTRY_SEPARATOR);
+  }
+
+  /** Files the summarized messages read or changed, from their tool calls. */
+  private filesSection(messages: Array<Record<string, any>>): string | null {
+    const read = new Set<string>();
+    const modified = new Set<string>();
+
+    for (const msg of messages) {
+      for (const tc of msg.tool_calls || []) {
+        const name = tc.function?.name;
+        let path: unknown;
+        try {
+          path = JSON.parse(tc.function?.arguments || "{}").path;
+        } catch {
+          continue;
+        }
+        if (typeof path !== "string") {
+          continue;
+        }
+        if (FILE_WRITING_TOOLS.has(name)) {
+          modified.add(path);
+        } else if (FILE_READING_TOOLS.has(name)) {
+          read.add(path);
         }
-      } else {
-        const truncated =
-          content.length > 1500 ? content.substring(0, 1500) : content;
-        const suffix = content.length > 1500 ? "\n... [message truncated]" : "";
-        output.push(`User:\n${truncated}${suffix}`);
       }
     }
 
-    return output.join("\n\n---\n\n");
+    const lines: string[] = [];
+    if (modified.size > 0) {
+      lines.push("Modified:", ...Array.from(modified).sort().map((p) => `- ${p}`));
+    }
+    const readOnly = Array.from(read).filter((p) => !modified.has(p)).sort();
+    if (readOnly.length > 0) {
+      lines.push("Read:", ...readOnly.map((p) => `- ${p}`));
+    }
+    return lines.length > 0 ? `## FILES TOUCHED\n${lines.join("\n")}` : null;
   }
 
-  async compress(
-    contextManager: ContextManager
-  ): Promise<[string | null, TokenUsage | null]> {
-    const messages = contextManager.getMessages();
+  /** Used when every summary call failed: the requests, without the work. */
+  private localSummary(messages: Array<Record<string, any>>): string {
+    const prompts = messages
+      .filter((msg) => msg.role === "user" && msg.content)
+      .map((msg) => msg.content as string);
 
-    if (messages.length < 3) {
-      return [null, null];
+    const lines = ["## ORIGINAL GOAL", clip(prompts[0] || "(unknown)", 2000)];
+    if (prompts.length > 1) {
+      lines.push("", "## LATER REQUESTS");
+      for (const prompt of prompts.slice(1)) {
+        lines.push(`- ${clip(prompt, 300).replace(/\s+/g, " ")}`);
+      }
     }
+    lines.push(
+      "",
+      "## NOTE",
+      "No summary of the earlier work could be made. Check the files before " +
+        "assuming what was or was not done."
+    );
+    return lines.join("\n");
+  }
 
+  private async summarize(
+    history: string,
+    brief: boolean,
+    options: CompactionOptions
+  ): Promise<[string, TokenUsage | null] | null> {
     const compressionMessages = [
       {
         role: "system",
-        content: getCompressionPrompt(),
+        content: getCompressionPrompt(options.instructions),
       },
       {
         role: "user",
-        content: this.formatHistoryForCompaction(messages),
+        content:
+          "Here is the conversation that needs to be continued. Its most recent " +
+          "messages are kept as they are and are not shown.\n\n" +
+          history +
+          (brief ? "\n\nKeep the summary short: at most 400 words in total." : ""),
       },
     ];
 
@@ -86,8 +231,12 @@ export class ChatCompactor {
       for await (const event of this.client.chatCompletion(
         compressionMessages,
         null,
-        false
+        false,
+        options.signal
       )) {
+        if (event.type === StreamEventType.ERROR) {
+          return null;
+        }
         if (event.type === StreamEventType.MESSAGE_COMPLETE) {
           usage = event.usage || null;
           if (event.textDelta) {
@@ -96,13 +245,60 @@ export class ChatCompactor {
         }
       }
 
-      if (!summary || !usage) {
-        return [null, null];
-      }
-
-      return [summary, usage];
+      return summary.trim() ? [summary, usage] : null;
     } catch {
-      return [null, null];
+      return null;
+    }
+  }
+
+  /**
+   * Summarize all but the most recent turns. A failed summary call is
+   * retried with a smaller input and a request for a shorter summary; if
+   * that fails too, a local summary of the user's requests is used.
+   * Returns null when there is nothing older to summarize or the signal
+   * was aborted.
+   */
+  async compress(
+    contextManager: ContextManager,
+    options: CompactionOptions
+  ): Promise<CompactionResult | null> {
+    const keepFrom = contextManager.compactionSplit(options.preserveTurns);
+    const older = contextManager.exportMessages(0, keepFrom);
+
+    if (keepFrom === 0 || older.length < 2) {
+      return null;
     }
+
+    let budget = Math.max(
+      RESERVED_TOKENS,
+      this.client.model.contextWindow - RESERVED_TOKENS
+    );
+    let result: [string, TokenUsage | null] | null = null;
+    let attempts = 0;
+
+    while (!result && attempts < MAX_ATTEMPTS && !options.signal?.aborted) {
+      const history = this.formatHistoryForCompaction(older, budget);
+      result = await this.summarize(history, attempts > 0, options);
+      attempts++;
+      budget = Math.floor(budget * RETRY_SHRINK);
+    }
+
+    if (options.signal?.aborted) {
+      return null;
+    }
+
+    const sections = [
+      result ? result[0].trim() : this.localSummary(older),
+      this.filesSection(older),
+      ...(options.stateSections || []).map((state) => `## WORKING STATE\n${state}`),
+    ].filter((section): section is string => !!section);
+
+    return {
+      summary: sections.join("\n\n"),
+      usage: result ? result[1] : null,
+      keepFrom,
+      attempts,
+      fallback: !result,
+    };
   }
 }
@@ -0,0 +1,172 @@
+// Compact stand-ins for old tool outputs, so pruning keeps what the model
+// needs to decide whether to look at the output again
+
+// Every digest starts with this, so already pruned outputs can be told apart
+export const DIGEST_MARKER = "[Digest of earlier";
+
+const MAX_OUTLINE_SYMBOLS = 40;
+const MAX_GREP_FILES = 20;
+const SHELL_TAIL_LINES = 10;
+const MAX_TAIL_CHARS = 1000;
+const MAX_PREVIEW_LINES = 5;
+
+const recallHint = (toolCallId: string) =>
+  `; call recall_output with id "${toolCallId}" for the full text]`;
+const NOT_RECALLABLE = "; the full output is no longer available]";
+
+// Declarations worth listing in a file outline, across common languages
+const SYMBOL_PATTERN =
+  /^(\s*)(?:export\s+)?(?:default\s+)?(?:pub(?:\([^)]*\))?\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|def|fn|func|struct|trait|impl|module|namespace)\s+([A-Za-z_$][\w$.]*)/;
+const METHOD_PATTERN =
+  /^(\s+)(?:public\s+|private\s+|protected\s+|static\s+|readonly\s+|async\s+)*(?!if\b|for\b|while\b|switch\b|catch\b|return\b)([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::\s*[^={]+)?\{\s*$/;
+const HEADING_PATTERN = /^(#{1,3})\s+(.+)$/;
+
+// read_file prefixes each line with its number: "    12|text"
+const NUMBERED_LINE = /^\s*(\d+)\|(.*)$/;
+
+function clipTail(text: string): string {
+  const lines = text.trimEnd().split("\n");
+  const tail = lines.slice(-SHELL_TAIL_LINES).join("\n");
+  return tail.length > MAX_TAIL_CHARS ? `…${tail.slice(-MAX_TAIL_CHARS)}` : tail;
+}
+
+function outline(lines: Array<[number, string]>): string[] {
+  const symbols: string[] = [];
+
+  for (const [lineNumber, text] of lines) {
+    const symbol = text.match(SYMBOL_PATTERN);
+    const method = symbol ? null : text.match(METHOD_PATTERN);
+    const heading = symbol || method ? null : text.match(HEADING_PATTERN);
+
+    if (symbol) {
+      symbols.push(`${symbol[1]}${symbol[2]} ${symbol[3]} (line ${lineNumber})`);
+    } else if (method) {
+      symbols.push(`${method[1]}${method[2]}() (line ${lineNumber})`);
+    } else if (heading) {
+      symbols.push(`${heading[1]} ${heading[2].trim()} (line ${lineNumber})`);
+    }
+  }
+
+  if (symbols.length > MAX_OUTLINE_SYMBOLS) {
+    const more = symbols.length - MAX_OUTLINE_SYMBOLS;
+    return [...symbols.slice(0, MAX_OUTLINE_SYMBOLS), `... ${more} more`];
+  }
+  return symbols;
+}
+
+function readFileDigest(args: Record<string, any>, output: string): string[] {
+  const numbered: Array<[number, string]> = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(NUMBERED_LINE);
+    if (match) {
+      numbered.push([Number(match[1]), match[2]]);
+    }
+  }
+
+  const lines = [`Path: ${args.path ?? "(unknown)"}`];
+  if (numbered.length === 0) {
+    lines.push(...output.split("\n").slice(0, MAX_PREVIEW_LINES));
+    return lines;
+  }
+
+  const total = output.match(/^Showing lines \d+-\d+ of (\d+)/)?.[1];
+  lines.push(
+    `Lines: ${numbered[0][0]}-${numbered[numbered.length - 1][0]}` +
+      (total ? ` of ${total}` : "")
+  );
+
+  const symbols = outline(numbered);
+  if (symbols.length > 0) {
+    lines.push("Outline:", ...symbols.map((symbol) => `  ${symbol}`));
+  }
+  return lines;
+}
+
+function grepDigest(args: Record<string, any>, output: string): string[] {
+  const counts = new Map<string, number>();
+  let file: string | null = null;
+
+  for (const line of output.split("\n")) {
+    const header = line.match(/^=== (.+) ===$/);
+    if (header) {
+      file = header[1];
+      counts.set(file, 0);
+    } else if (file && /^\d+:/.test(line)) {
+      counts.set(file, counts.get(file)! + 1);
+    }
+  }
+
+  const lines = [`Pattern: ${args.pattern ?? "(unknown)"}`];
+  if (args.path) {
+    lines.push(`Path: ${args.path}`);
+  }
+  if (counts.size === 0) {
+    lines.push(...output.split("\n").slice(0, MAX_PREVIEW_LINES));
+    return lines;
+  }
+
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  const files = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  lines.push(`Matches: ${total} in ${counts.size} files`);
+  for (const [path, count] of files.slice(0, MAX_GREP_FILES)) {
+    lines.push(`  ${path}: ${count}`);
+  }
+  if (files.length > MAX_GREP_FILES) {
+    lines.push(`  ... ${files.length - MAX_GREP_FILES} more files`);
+  }
+  return lines;
+}
+
+function shellDigest(args: Record<string, any>, output: string): string[] {
+  // Failed commands come back as "Error: <message>\n\nOutput:\n<output>"
+  const failed = output.startsWith("Error: ");
+  const exitCode = failed ? output.match(/exited with code (\d+)/)?.[1] ?? "non-zero" : "0";
+  const body = failed ? output.replace(/^[\s\S]*?\n\nOutput:\n/, "") : output;
+
+  const lines = [`Command: ${args.command ?? "(unknown)"}`, `Exit code: ${exitCode}`];
+  if (body.trim()) {
+    lines.push(`Last lines of output:`, clipTail(body));
+  }
+  return lines;
+}
+
+function genericDigest(args: Record<string, any>, output: string): string[] {
+  const argText = JSON.stringify(args);
+  const lines = [`Arguments: ${argText.length > 200 ? `${argText.slice(0, 200)}…` : argText}`];
+  const preview = output.split("\n").slice(0, MAX_PREVIEW_LINES);
+  lines.push("First lines of output:", ...preview);
+  return lines;
+}
+
+/**
+ * Short, tool-aware description of a tool output: the file outline for
+ * read_file, match counts for grep, exit code and tail for shell.
+ */
+export function digestToolOutput(
+  toolName: string,
+  args: Record<string, any>,
+  output: string,
+  toolCallId: string,
+  recallable: boolean
+): string {
+  let lines: string[];
+  if (toolName === "read_file") {
+    lines = readFileDigest(args, output);
+  } else if (toolName === "grep") {
+    lines = grepDigest(args, output);
+  } else if (toolName === "shell") {
+    lines = shellDigest(args, output);
+  } else {
+    lines = genericDigest(args, output);
+  }
+
+  const header =
+    `${DIGEST_MARKER} ${toolName} output (${output.length} characters)` +
+    (recallable ? recallHint(toolCallId) : "]");
+  return [header, ...lines].join("\n");
+}
+
+/** The digest without its recall hint, once the stored output was dropped. */
+export function markDigestUnrecallable(digest: string, toolCallId: string): string {
+  return digest.replace(recallHint(toolCallId), NOT_RECALLABLE);
+}
@@ -1,68 +1,331 @@
-export class LoopDetector {
-  private readonly maxExactRepeats = 3;
-  private readonly maxCycleLength = 3;
-  private readonly history: string[] = [];
-  private readonly maxHistorySize = 20;
+import { LoopDetectionConfig } from "../config/config.js";
 
-  recordAction(actionType: string, details: Record<string, any> = {}): void {
-    const output: string[] = [actionType];
+const READ_TOOLS = new Set(["read_file"]);
+const EDIT_TOOLS = new Set(["edit", "write_file"]);
+
+export type LoopKind =
+  | "exact_repeat"
+  | "cycle"
+  | "near_duplicate"
+  | "failing_edits"
+  | "read_edit_alternation"
+  | "repeated_error";
+
+export interface LoopDetection {
+  kind: LoopKind;
+  description: string;
+}
+
+/** What the agent does about a loop, in the order tried. */
+export enum LoopEscalation {
+  NUDGE = "nudge",
+  PLAN_REVIEW = "plan_review",
+  ASK_USER = "ask_user",
+}
+
+const ESCALATION_LADDER = [
+  LoopEscalation.NUDGE,
+  LoopEscalation.PLAN_REVIEW,
+  LoopEscalation.ASK_USER,
+];
+
+interface ActionRecord {
+  // Exact form of the action, also what sessions save
+  signature: string;
+  toolName: string | null;
+  callId: string | null;
+  args: Record<string, any> | null;
+  result: { success: boolean; output: string } | null;
+}
 
-    if (actionType === "tool_call") {
-      output.push(details.tool_name || "");
-      const args = details.args || {};
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
 
-      if (typeof args === "object" && args !== null) {
-        const sortedKeys = Object.keys(args).sort();
-        for (const k of sortedKeys) {
-          output.push(`${k}=${String(args[k])}`);
-        }
+/** Only letters and digits, so escaping, quoting and spacing do not count. */
+function essence(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over character pairs: 1 for equal texts, 0 for unrelated. */
+function textSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const pairsA = bigrams(a);
+  let shared = 0;
+  for (const [pair, count] of bigrams(b)) {
+    shared += Math.min(count, pairsA.get(pair) || 0);
+  }
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * How alike two argument sets are, by their least similar argument.
+ * Strings may differ slightly; other values must be equal, so paging
+ * through a file with a new offset is not a near-duplicate.
+ */
+function argsSimilarity(a: Record<string, any>, b: Record<string, any>): number {
+  let similarity = 1;
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const [x, y] = [a[key], b[key]];
+    const score =
+      typeof x === "string" && typeof y === "string"
+        ? essence(x) === essence(y)
+          ? 1
+          : textSimilarity(normalize(x), normalize(y))
+        : JSON.stringify(x) === JSON.stringify(y)
+          ? 1
+          : 0;
+    similarity = Math.min(similarity, score);
+  }
+  return similarity;
+}
+
+function pathOf(record: ActionRecord): string | null {
+  const path = record.args?.path;
+  return typeof path === "string" ? path.replace(/^\.\//, "") : null;
+}
+
+function signatureOf(actionType: string, details: Record<string, any>): string {
+  const output: string[] = [actionType];
+
+  if (actionType === "tool_call") {
+    output.push(details.tool_name || "");
+    const args = details.args || {};
+
+    if (typeof args === "object" && args !== null) {
+      const sortedKeys = Object.keys(args).sort();
+      for (const k of sortedKeys) {
+        output.push(`${k}=${String(args[k])}`);
       }
-    } else if (actionType === "response") {
-      output.push(details.text || "");
     }
+  } else if (actionType === "response") {
+    output.push(details.text || "");
+  }
+
+  return output.join("|");
+}
+
+export class LoopDetector {
+  private readonly history: ActionRecord[] = [];
+  private readonly maxHistorySize = 30;
+  // Steps taken on the ladder since the last reset
+  private level = 0;
 
-    const signature = output.join("|");
-    this.history.push(signature);
+  constructor(private readonly config: LoopDetectionConfig) {}
+
+  recordAction(actionType: string, details: Record<string, any> = {}): void {
+    const isToolCall = actionType === "tool_call";
+    this.history.push({
+      signature: signatureOf(actionType, details),
+      toolName: isToolCall ? details.tool_name || "" : null,
+      callId: isToolCall ? details.call_id || null : null,
+      args: isToolCall && typeof details.args === "object" ? details.args : null,
+      result: null,
+    });
 
     if (this.history.length > this.maxHistorySize) {
       this.history.shift();
     }
   }
 
-  checkForLoop(): string | null {
+  /** Attach the outcome of a recorded tool call. */
+  recordResult(callId: string, success: boolean, output: string): void {
+    const record = this.history.find((r) => r.callId === callId);
+    if (record) {
+      record.result = { success, output };
+    }
+  }
+
+  checkForLoop(): LoopDetection | null {
     if (this.history.length < 2) {
       return null;
     }
 
-    if (this.history.length >= this.maxExactRepeats) {
-      const recent = this.history.slice(-this.maxExactRepeats);
-      if (new Set(recent).size === 1) {
-        return `Same action repeated ${this.maxExactRepeats} times`;
+    return (
+      this.exactRepeat() ||
+      this.cycle() ||
+      this.failingEdits() ||
+      this.repeatedError() ||
+      this.readEditAlternation() ||
+      this.nearDuplicate()
+    );
+  }
+
+  /**
+   * Take the next step on the ladder for a detected loop. The actions seen
+   * so far are forgotten, so the next step needs the loop to go on.
+   */
+  escalate(): LoopEscalation {
+    const step = ESCALATION_LADDER[Math.min(this.level, ESCALATION_LADDER.length - 1)];
+    this.level++;
+    this.history.length = 0;
+    return step;
+  }
+
+  get escalationLevel(): number {
+    return this.level;
+  }
+
+  /** Start again from a nudge, e.g. for a new user request. */
+  resetEscalation(): void {
+    this.level = 0;
+  }
+
+  private toolCalls(): ActionRecord[] {
+    return this.history.filter((record) => record.toolName !== null);
+  }
+
+  private exactRepeat(): LoopDetection | null {
+    const count = this.config.maxExactRepeats;
+    if (this.history.length < count) {
+      return null;
+    }
+    const recent = this.history.slice(-count);
+    if (new Set(recent.map((r) => r.signature)).size === 1) {
+      return { kind: "exact_repeat", description: `Same action repeated ${count} times` };
+    }
+    return null;
+  }
+
+  private cycle(): LoopDetection | null {
+    const signatures = this.history.map((r) => r.signature);
+    if (signatures.length < this.config.maxCycleLength * 2) {
+      return null;
+    }
+
+    for (
+      let cycleLen = 2;
+      cycleLen <= Math.min(this.config.maxCycleLength, Math.floor(signatures.length / 2));
+      cycleLen++
+    ) {
+      const recent = signatures.slice(-cycleLen * 2);
+      const firstHalf = recent.slice(0, cycleLen);
+      const secondHalf = recent.slice(cycleLen);
+
+      if (JSON.stringify(firstHalf) === JSON.stringify(secondHalf)) {
+        return { kind: "cycle", description: `Detected repeating cycle of length ${cycleLen}` };
       }
     }
+    return null;
+  }
 
-    if (this.history.length >= this.maxCycleLength * 2) {
-      const history = [...this.history];
+  private repeatedError(): LoopDetection | null {
+    const count = this.config.maxRepeatedErrors;
+    const results = this.toolCalls()
+      .filter((r) => r.result !== null)
+      .slice(-count);
 
-      for (
-        let cycleLen = 2;
-        cycleLen <= Math.min(this.maxCycleLength, Math.floor(history.length / 2));
-        cycleLen++
-      ) {
-        const recent = history.slice(-cycleLen * 2);
-        const firstHalf = recent.slice(0, cycleLen);
-        const secondHalf = recent.slice(cycleLen);
+    if (
+      results.length === count &&
+      results.every((r) => !r.result!.success) &&
+      new Set(results.map((r) => normalize(r.result!.output))).size === 1
+    ) {
+      return {
+        kind: "repeated_error",
+        description: `The last ${count} tool calls failed with the same error`,
+      };
+    }
+    return null;
+  }
+
+  private failingEdits(): LoopDetection | null {
+    const failures = new Map<string, number>();
 
-        if (JSON.stringify(firstHalf) === JSON.stringify(secondHalf)) {
-          return `Detected repeating cycle of length ${cycleLen}`;
-        }
+    for (const record of this.toolCalls()) {
+      const path = pathOf(record);
+      if (!path || !EDIT_TOOLS.has(record.toolName!) || !record.result) {
+        continue;
       }
+      failures.set(path, record.result.success ? 0 : (failures.get(path) || 0) + 1);
     }
 
+    for (const [path, count] of failures) {
+      if (count >= this.config.maxFailedEdits) {
+        return {
+          kind: "failing_edits",
+          description: `${count} edits of ${path} in a row failed`,
+        };
+      }
+    }
     return null;
   }
 
+  private readEditAlternation(): LoopDetection | null {
+    const count = this.config.maxReadEditCycles * 2;
+    const recent = this.toolCalls().slice(-count);
+    if (recent.length < count) {
+      return null;
+    }
+
+    const path = pathOf(recent[0]);
+    const alternates = recent.every((record, i) => {
+      const tools = i % 2 === 0 ? READ_TOOLS : EDIT_TOOLS;
+      return pathOf(record) === path && tools.has(record.toolName!);
+    });
+
+    if (path && alternates) {
+      return {
+        kind: "read_edit_alternation",
+        description:
+          `Reading and editing ${path} in turn ` +
+          `${this.config.maxReadEditCycles} times without moving on`,
+      };
+    }
+    return null;
+  }
+
+  private nearDuplicate(): LoopDetection | null {
+    const count = this.config.maxSimilarCalls;
+    const recent = this.toolCalls().slice(-count);
+    if (recent.length < count) {
+      return null;
+    }
+
+    const last = recent[recent.length - 1];
+    const similar = recent.every(
+      (record) =>
+        record.toolName === last.toolName &&
+        argsSimilarity(record.args || {}, last.args || {}) >= this.config.similarityThreshold
+    );
+
+    if (similar) {
+      return {
+        kind: "near_duplicate",
+        description: `${last.toolName} called ${count} times with nearly the same arguments`,
+      };
+    }
+    return null;
+  }
+
+  getHistory(): string[] {
+    return this.history.map((record) => record.signature);
+  }
+
+  /** Restore saved signatures; arguments and results are not saved. */
+  restoreHistory(history: string[]): void {
+    this.history.length = 0;
+    for (const signature of history.slice(-this.maxHistorySize)) {
+      this.history.push({ signature, toolName: null, callId: null, args: null, result: null });
+    }
+  }
+
   clear(): void {
     this.history.length = 0;
+    this.level = 0;
   }
 }
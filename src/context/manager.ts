@@ -1,8 +1,12 @@
-import { Config } from "../config/config.js";
+import { Config, resolveModelForRole } from "../config/config.js";
 import { TokenUsage } from "../client/response.js";
 import { Tool } from "../tools/base.js";
-import { getSystemPrompt } from "../prompts/system.js";
+import { PromptSection, getSystemPromptSections } from "../prompts/system.js";
 import { countTokens } from "../utils/text.js";
+import { DIGEST_MARKER, digestToolOutput, markDigestUnrecallable } from "./digest.js";
+import { RECALL_TOOL_NAME } from "../tools/builtin/recall_output.js";
+
+const CLEARED_OUTPUT = "[Old tool result content cleared]";
 
 export class MessageItem {
   constructor(
@@ -11,7 +15,9 @@ export class MessageItem {
     public toolCallId?: string | null,
     public toolCalls: Array<Record<string, any>> = [],
     public tokenCount?: number | null,
-    public prunedAt?: Date | null
+    public prunedAt?: Date | null,
+    // Tool results only: the tool failed
+    public isError: boolean = false
   ) {}
 
   toDict(): Record<string, any> {
@@ -29,20 +35,72 @@ export class MessageItem {
       result.content = this.content;
     }
 
+    if (this.isError) {
+      result.is_error = true;
+    }
+
     return result;
   }
 }
 
+export interface TokenShare {
+  name: string;
+  tokens: number;
+}
+
+export interface ToolOutputSize {
+  toolCallId: string;
+  name: string;
+  tokens: number;
+  // Position in the conversation, counting from 1
+  messageNumber: number;
+}
+
+/** A tool output replaced by pruning, with its original content. */
+export interface PrunedOutput {
+  toolCallId: string;
+  content: string;
+}
+
+/** Where the tokens of the next request go, from ContextManager.getBreakdown(). */
+export interface ContextBreakdown {
+  contextWindow: number;
+  totalTokens: number;
+  systemSections: TokenShare[];
+  toolSchemas: TokenShare[];
+  messagesByRole: Array<TokenShare & { count: number }>;
+  largestToolOutputs: ToolOutputSize[];
+}
+
 export class ContextManager {
   private static readonly PRUNE_PROTECT_TOKENS = 40_000;
   private static readonly PRUNE_MINIMUM_TOKENS = 20_000;
-
-  private readonly systemPrompt: string;
+  // Role markers and separators the API adds around each message
+  private static readonly MESSAGE_OVERHEAD_TOKENS = 4;
+  // Share of the context window compaction may keep word for word
+  private static readonly KEEP_RATIO = 0.5;
+
+  private systemPrompt = "";
+  private promptSections: PromptSection[] = [];
+  private toolSchemas: Array<Record<string, any>> = [];
   private readonly config: Config;
-  private readonly modelName: string;
+  // Model whose tokenizer the counts below were made with
+  private modelName: string;
+  private fixedTokens = 0;
+  private canRecall = false;
+  // Kept from the start of the session so the prompt only changes with the
+  // tools, which keeps the provider's prompt cache valid
+  private readonly userMemory: string | null;
+  private readonly promptDate: Date = new Date();
   private messages: MessageItem[] = [];
-  private latestUsage: TokenUsage = new TokenUsage();
+  public latestUsage: TokenUsage = new TokenUsage();
+  // Local estimate of the last request, and how far it was off from the
+  // prompt size the provider reported for it
+  private lastRequestEstimate = 0;
+  private calibration = 1;
   public totalUsage: TokenUsage = new TokenUsage();
+  // Bumped whenever earlier messages are dropped or rewritten
+  public generation = 0;
 
   constructor(
     config: Config,
@@ -51,7 +109,31 @@ export class ContextManager {
   ) {
     this.config = config;
     this.modelName = config.modelName;
-    this.systemPrompt = getSystemPrompt(config, userMemory, tools);
+    this.userMemory = userMemory ?? null;
+    this.setTools(tools);
+  }
+
+  /** Rebuild the system prompt and schemas for a new tool list, keeping the messages. */
+  setTools(tools?: Tool[] | null): void {
+    this.promptSections = getSystemPromptSections(
+      this.config,
+      this.userMemory,
+      tools,
+      this.promptDate
+    );
+    this.systemPrompt = this.promptSections.map((section) => section.content).join("\n\n");
+
+    this.toolSchemas = (tools || []).map((tool) => tool.toOpenAISchema());
+    this.canRecall = (tools || []).some((tool) => tool.name === RECALL_TOOL_NAME);
+    this.countFixedTokens();
+  }
+
+  private countFixedTokens(): void {
+    this.fixedTokens =
+      countTokens(this.systemPrompt, this.modelName) +
+      (this.toolSchemas.length > 0
+        ? countTokens(JSON.stringify(this.toolSchemas), this.modelName)
+        : 0);
   }
 
   get messageCount(): number {
@@ -83,13 +165,15 @@ export class ContextManager {
     this.messages.push(item);
   }
 
-  addToolResult(toolCallId: string, content: string): void {
+  addToolResult(toolCallId: string, content: string, isError: boolean = false): void {
     const item = new MessageItem(
       "tool",
       content,
       toolCallId,
       [],
-      countTokens(content, this.modelName)
+      countTokens(content, this.modelName),
+      null,
+      isError
     );
     this.messages.push(item);
   }
@@ -108,25 +192,178 @@ export class ContextManager {
       messages.push(item.toDict());
     }
 
+    this.lastRequestEstimate = this.estimateRequestTokens();
     return messages;
   }
 
+  /** Conversation messages (without the system prompt) from `start` to `end`. */
+  exportMessages(start: number = 0, end?: number): Array<Record<string, any>> {
+    return this.messages.slice(start, end).map((item) => item.toDict());
+  }
+
+  /**
+   * Recount everything with the new tokenizer after the main model was
+   * switched (e.g. with /model or by restoring a session).
+   */
+  private syncModel(): void {
+    const modelName = this.config.modelName;
+    if (modelName === this.modelName) {
+      return;
+    }
+
+    this.modelName = modelName;
+    // The ratio was measured against the previous tokenizer and provider
+    this.calibration = 1;
+    for (const msg of this.messages) {
+      msg.tokenCount = countTokens(msg.content, modelName);
+    }
+    this.countFixedTokens();
+  }
+
+  private messageTokens(msg: MessageItem): number {
+    let tokens = ContextManager.MESSAGE_OVERHEAD_TOKENS;
+    tokens += msg.tokenCount ?? countTokens(msg.content, this.modelName);
+    if (msg.toolCalls.length > 0) {
+      tokens += countTokens(JSON.stringify(msg.toolCalls), this.modelName);
+    }
+    return tokens;
+  }
+
+  /**
+   * Estimated prompt size of the next request (system prompt, tool schemas
+   * and all messages), counted locally so that tool results added since the
+   * last response are included.
+   */
+  estimateRequestTokens(): number {
+    this.syncModel();
+    let tokens = this.fixedTokens;
+
+    for (const msg of this.messages) {
+      tokens += this.messageTokens(msg);
+    }
+
+    return tokens;
+  }
+
+  getBreakdown(largestOutputs: number = 5): ContextBreakdown {
+    this.syncModel();
+    const systemSections = this.promptSections.map((section) => ({
+      name: section.name,
+      tokens: countTokens(section.content, this.modelName),
+    }));
+    const toolSchemas = this.toolSchemas
+      .map((schema) => ({
+        name: schema.function?.name ?? schema.name ?? "unknown",
+        tokens: countTokens(JSON.stringify(schema), this.modelName),
+      }))
+      .sort((a, b) => b.tokens - a.tokens);
+
+    const byRole = new Map<string, TokenShare & { count: number }>();
+    const toolNames = new Map<string, string>();
+    const toolOutputs: ToolOutputSize[] = [];
+
+    this.messages.forEach((msg, i) => {
+      const tokens = this.messageTokens(msg);
+      const share = byRole.get(msg.role) || { name: msg.role, tokens: 0, count: 0 };
+      share.tokens += tokens;
+      share.count++;
+      byRole.set(msg.role, share);
+
+      for (const call of msg.toolCalls) {
+        toolNames.set(call.id, call.function?.name || "unknown");
+      }
+      if (msg.role === "tool" && msg.toolCallId) {
+        toolOutputs.push({
+          toolCallId: msg.toolCallId,
+          name: toolNames.get(msg.toolCallId) || "unknown",
+          tokens,
+          messageNumber: i + 1,
+        });
+      }
+    });
+
+    return {
+      contextWindow: resolveModelForRole(this.config, "main").contextWindow,
+      totalTokens: this.estimateRequestTokens(),
+      systemSections,
+      toolSchemas,
+      messagesByRole: Array.from(byRole.values()).sort((a, b) => b.tokens - a.tokens),
+      largestToolOutputs: toolOutputs
+        .sort((a, b) => b.tokens - a.tokens)
+        .slice(0, largestOutputs),
+    };
+  }
+
+  /**
+   * Index of the first message compaction keeps word for word: the start of
+   * the last `preserveTurns` turns, moved later while the kept part would
+   * take more than half the context window. Inside a turn it only splits
+   * before an assistant message, so tool calls stay with their results.
+   * 0 means there is nothing older to summarize.
+   */
+  compactionSplit(preserveTurns: number): number {
+    this.syncModel();
+    const limit = resolveModelForRole(this.config, "main").contextWindow * ContextManager.KEEP_RATIO;
+    const tokensFrom: number[] = new Array(this.messages.length + 1).fill(0);
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      tokensFrom[i] = tokensFrom[i + 1] + this.messageTokens(this.messages[i]);
+    }
+
+    const turnStarts = this.messages
+      .map((msg, i) => (msg.role === "user" ? i : -1))
+      .filter((i) => i >= 0);
+    const candidates = preserveTurns > 0 ? turnStarts.slice(-preserveTurns) : [];
+    const lastTurn = turnStarts.length > 0 ? turnStarts[turnStarts.length - 1] : 0;
+    if (preserveTurns > 0) {
+      for (let i = lastTurn + 1; i < this.messages.length; i++) {
+        if (this.messages[i].role === "assistant") {
+          candidates.push(i);
+        }
+      }
+    }
+    candidates.push(this.messages.length);
+
+    const split = candidates.find((i) => i > 0 && tokensFrom[i] <= limit);
+    return split ?? this.messages.length;
+  }
+
   needsCompression(): boolean {
-    const contextLimit = this.config.model.contextWindow;
-    const currentTokens = this.latestUsage.totalTokens;
+    const contextLimit = resolveModelForRole(this.config, "main").contextWindow;
+    const currentTokens = Math.round(this.estimateRequestTokens() * this.calibration);
     return currentTokens > contextLimit * 0.8;
   }
 
   setLatestUsage(usage: TokenUsage): void {
     this.latestUsage = usage;
+
+    // Scale local estimates to the provider's own tokenizer
+    if (usage.promptTokens > 0 && this.lastRequestEstimate > 0) {
+      const ratio = usage.promptTokens / this.lastRequestEstimate;
+      this.calibration = Math.min(2, Math.max(0.5, ratio));
+    }
   }
 
   addUsage(usage: TokenUsage): void {
     this.totalUsage = this.totalUsage.add(usage);
   }
 
-  replaceWithSummary(summary: string): void {
+  /**
+   * Replace the messages before `keepFrom` with `summary`; the rest stay
+   * as they are. By default everything is replaced.
+   */
+  replaceWithSummary(summary: string, keepFrom: number = this.messages.length): void {
+    const kept = this.messages.slice(keepFrom);
+    // A split inside a turn summarizes its prompt, which must survive as is
+    const request =
+      kept.length > 0 && kept[0].role !== "user"
+        ? this.messages
+            .slice(0, keepFrom)
+            .reverse()
+            .find((msg) => msg.role === "user")
+        : undefined;
+
     this.messages = [];
+    this.generation++;
 
     const continuationContent = `# Context Restoration (Previous Session Compacted)
 
@@ -139,8 +376,16 @@ export class ContextManager {
         ${summary}
 
         ---
+${request ? `
+## CURRENT REQUEST (verbatim)
+
+${request.content}
 
-        Resume work from where we left off. Focus ONLY on the remaining tasks.`;
+---
+` : ""}
+        Resume work from where we left off. Focus ONLY on the remaining tasks.${
+          kept.length > 0 ? " The most recent messages follow unchanged." : ""
+        }`;
 
     const summaryItem = new MessageItem(
       "user",
@@ -151,6 +396,12 @@ export class ContextManager {
     );
     this.messages.push(summaryItem);
 
+    // Roles must keep alternating into the kept messages
+    if (kept.length > 0 && kept[0].role !== "user") {
+      this.messages.push(...kept);
+      return;
+    }
+
     const ackContent = `I've reviewed the context from the previous session. I understand:
 - The original goal and what was requested
 - Which actions are ALREADY COMPLETED (I will NOT repeat these)
@@ -167,6 +418,11 @@ I'll continue with the REMAINING tasks only, starting from where we left off.`;
     );
     this.messages.push(ackItem);
 
+    if (kept.length > 0) {
+      this.messages.push(...kept);
+      return;
+    }
+
     const continueContent =
       "Continue with the REMAINING work only. Do NOT repeat any completed actions. " +
       "Proceed with the next step as described in the context above.";
@@ -181,13 +437,18 @@ I'll continue with the REMAINING tasks only, starting from where we left off.`;
     this.messages.push(continueItem);
   }
 
-  pruneToolOutputs(): number {
+  /**
+   * Replace tool outputs beyond the most recent PRUNE_PROTECT_TOKENS with a
+   * digest or a placeholder, per `compaction.pruneStrategy`. Returns the
+   * replaced outputs with their original content.
+   */
+  pruneToolOutputs(): PrunedOutput[] {
     const userMessageCount = this.messages.filter(
       (msg) => msg.role === "user"
     ).length;
 
     if (userMessageCount < 2) {
-      return 0;
+      return [];
     }
 
     let totalTokens = 0;
@@ -197,7 +458,12 @@ I'll continue with the REMAINING tasks only, starting from where we left off.`;
     for (let i = this.messages.length - 1; i >= 0; i--) {
       const msg = this.messages[i];
       if (msg.role === "tool" && msg.toolCallId) {
-        if (msg.prunedAt) {
+        // Outputs pruned before a resume have no prunedAt
+        if (
+          msg.prunedAt ||
+          msg.content === CLEARED_OUTPUT ||
+          msg.content.startsWith(DIGEST_MARKER)
+        ) {
           break;
         }
 
@@ -213,22 +479,78 @@ I'll continue with the REMAINING tasks only, starting from where we left off.`;
     }
 
     if (prunedTokens < ContextManager.PRUNE_MINIMUM_TOKENS) {
-      return 0;
+      return [];
+    }
+
+    const calls = new Map<string, Record<string, any>>();
+    for (const msg of this.messages) {
+      for (const call of msg.toolCalls) {
+        calls.set(call.id, call);
+      }
     }
 
-    let prunedCount = 0;
+    const pruned: PrunedOutput[] = [];
 
-    for (const msg of toPrune) {
-      msg.content = "[Old tool result content cleared]";
-      msg.tokenCount = countTokens(msg.content, this.modelName);
+    // Oldest first, the order they appear in
+    for (const msg of toPrune.reverse()) {
+      const replacement =
+        this.config.compaction.pruneStrategy === "digest"
+          ? this.digest(msg, calls.get(msg.toolCallId!))
+          : CLEARED_OUTPUT;
+      const tokens = countTokens(replacement, this.modelName);
       msg.prunedAt = new Date();
-      prunedCount++;
+
+      // Short outputs can be smaller than their digest
+      if (tokens >= (msg.tokenCount ?? countTokens(msg.content, this.modelName))) {
+        continue;
+      }
+      pruned.push({ toolCallId: msg.toolCallId!, content: msg.content });
+      msg.content = replacement;
+      msg.tokenCount = tokens;
     }
 
-    return prunedCount;
+    return pruned;
+  }
+
+  /** Drop the recall hint from digests whose full output is no longer stored. */
+  markOutputsUnrecallable(toolCallIds: string[]): void {
+    const ids = new Set(toolCallIds);
+    let changed = false;
+    for (const msg of this.messages) {
+      if (msg.role !== "tool" || !msg.toolCallId || !ids.has(msg.toolCallId)) {
+        continue;
+      }
+      const content = markDigestUnrecallable(msg.content, msg.toolCallId);
+      if (content !== msg.content) {
+        msg.content = content;
+        msg.tokenCount = countTokens(content, this.modelName);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.generation++;
+    }
+  }
+
+  private digest(msg: MessageItem, call: Record<string, any> | undefined): string {
+    let args: Record<string, any> = {};
+    try {
+      const parsed = JSON.parse(call?.function?.arguments || "{}");
+      args = parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      // Digest without the arguments
+    }
+    return digestToolOutput(
+      call?.function?.name || "unknown",
+      args,
+      msg.content,
+      msg.toolCallId!,
+      this.canRecall
+    );
   }
 
   clear(): void {
     this.messages = [];
+    this.generation++;
   }
 }
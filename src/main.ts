@@ -1,18 +1,186 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { createInterface } from "readline";
+import { existsSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
 import chalk from "chalk";
-import { loadConfig } from "./config/loader.js";
-import { validateConfig } from "./config/config.js";
+import { getDataDir, loadConfig } from "./config/loader.js";
+import {
+  validateConfig,
+  getProfileNames,
+  resolveModel,
+  resolveModelForRole,
+  switchMainModel,
+} from "./config/config.js";
 import { Agent } from "./agent/agent.js";
 import { AgentEventType } from "./agent/events.js";
-import { ApprovalPolicy } from "./config/config.js";
+import { ApprovalPolicy, Config } from "./config/config.js";
 import { PersistenceManager, SessionSnapshot } from "./agent/persistence.js";
-import { Session } from "./agent/session.js";
+import { SessionIndex } from "./agent/search.js";
 import { TUI } from "./ui/tui.js";
+import {
+  ExitCode,
+  HeadlessRenderer,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  RunOutcome,
+} from "./ui/headless.js";
+import { AgentServer } from "./server/http_server.js";
+import { StdioRpcServer } from "./server/stdio_rpc.js";
+import {
+  EXPORT_EXTENSIONS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportSession,
+} from "./ui/export.js";
+import { secretsFromEnv } from "./utils/redact.js";
+import { StorageCipher, encryptFile } from "./utils/encryption.js";
+
+/** Session to resume at startup: an id, or `true` for the latest one in cwd. */
+type ResumeTarget = string | true | undefined;
+
+function loadResumeSnapshot(config: Config, target: string | true): SessionSnapshot {
+  const persistenceManager = PersistenceManager.fromConfig(config);
+  const sessionId =
+    target === true ? persistenceManager.findLatestSession(config.cwd) : target;
+
+  if (!sessionId) {
+    throw new Error(`No saved session found for ${config.cwd}`);
+  }
+
+  const snapshot = persistenceManager.loadSession(sessionId);
+  if (!snapshot) {
+    throw new Error(`Session does not exist: ${sessionId}`);
+  }
+  return snapshot;
+}
+
+/** Apply the retention policy at startup; housekeeping never blocks a run. */
+function enforceRetention(config: Config, resume?: ResumeTarget): void {
+  try {
+    const persistenceManager = PersistenceManager.fromConfig(config);
+    // Resolve --continue before pruning so the session about to resume is kept
+    const keep = resume === true ? persistenceManager.findLatestSession(config.cwd) : resume;
+    persistenceManager.prune(config.retention, { keep: keep ? [keep] : [] });
+  } catch {
+    // Retried on the next start
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function runPrune(options: { cwd?: string; dryRun?: boolean; json?: boolean }): void {
+  const config = loadConfig(options.cwd);
+  const report = PersistenceManager.fromConfig(config).prune(config.retention, { dryRun: options.dryRun });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const verb = options.dryRun ? "Would delete" : "Deleted";
+  for (const sessionId of report.deletedSessions) {
+    console.log(`${verb} session ${sessionId}`);
+  }
+  for (const checkpointId of report.deletedCheckpoints) {
+    console.log(`${verb} checkpoint ${checkpointId}`);
+  }
+  for (const workspace of report.deletedShadowRepos) {
+    console.log(`${verb} file checkpoints of ${workspace}`);
+  }
+  for (const sessionId of report.compressed) {
+    console.log(`${options.dryRun ? "Would compress" : "Compressed"} session ${sessionId}`);
+  }
+  console.log(
+    `${options.dryRun ? "Would free" : "Freed"} ${formatBytes(report.freedBytes)}; ` +
+      `stored sessions and checkpoints use ${formatBytes(report.totalBytes)}`
+  );
+}
+
+/** Encrypt data stored before encryption was enabled. */
+function runMigrate(options: { cwd?: string }): void {
+  const config = loadConfig(options.cwd);
+  const cipher = StorageCipher.fromConfig(config.encryption);
+  if (!cipher) {
+    throw new Error("Encryption is not enabled; set 'encryption.enabled = true' first");
+  }
+
+  const sessions = new PersistenceManager(getDataDir(), cipher).encryptAll();
+  let other = 0;
+  for (const name of ["user_memory.json", "session_index.json"]) {
+    const path = join(getDataDir(), name);
+    if (existsSync(path) && encryptFile(path, cipher)) {
+      other++;
+    }
+  }
+
+  console.log(`Encrypted ${sessions} session and checkpoint files and ${other} other files`);
+}
+
+/** Values that `--redact` removes verbatim: the API key and secret env vars. */
+function exportSecrets(config: Config): string[] {
+  return [config.apiKey, ...secretsFromEnv()].filter(
+    (secret): secret is string => !!secret
+  );
+}
+
+function parseMaxToolOutput(value?: string): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const chars = Number(value);
+  if (!Number.isInteger(chars) || chars < 0) {
+    throw new Error(`Invalid tool output limit: ${value}`);
+  }
+  return chars;
+}
+
+function runExport(
+  sessionId: string,
+  options: {
+    cwd?: string;
+    format: ExportFormat;
+    output?: string;
+    redact?: boolean;
+    maxToolOutput?: string;
+  }
+): void {
+  const config = loadConfig(options.cwd);
+  const snapshot = PersistenceManager.fromConfig(config).loadSession(sessionId);
+  if (!snapshot) {
+    throw new Error(`Session does not exist: ${sessionId}`);
+  }
+
+  const content = exportSession(snapshot, options.format, {
+    redact: options.redact,
+    knownSecrets: exportSecrets(config),
+    maxToolOutput: parseMaxToolOutput(options.maxToolOutput),
+  });
+
+  if (options.output) {
+    writeFileSync(resolve(options.output), content, "utf-8");
+    console.error(chalk.green(`Exported ${sessionId} to ${options.output}`));
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+async function runSingle(
+  message: string,
+  cwd?: string,
+  outputFormat: OutputFormat = "text",
+  resume?: ResumeTarget
+): Promise<void> {
+  if (outputFormat !== "text") {
+    return runHeadless(message, outputFormat, cwd, resume);
+  }
 
-async function runSingle(message: string, cwd?: string): Promise<void> {
   const config = loadConfig(cwd);
   const errors = validateConfig(config);
 
@@ -21,24 +189,35 @@ async function runSingle(message: string, cwd?: string): Promise<void> {
     for (const error of errors) {
       tui.printError(error);
     }
-    process.exit(1);
+    process.exit(ExitCode.FAILURE);
   }
 
+  enforceRetention(config, resume);
   const tui = new TUI(config);
   const agent = new Agent(config);
   await agent.initialize();
+  if (resume) {
+    await agent.restoreSession(loadResumeSnapshot(config, resume));
+  }
+
+  const controller = new AbortController();
+  const onSigint = (): void => controller.abort();
+  process.once("SIGINT", onSigint);
+
+  const outcome = new RunOutcome();
 
   try {
-    let finalResponse: string | null = null;
+    for await (const event of agent.run(message, controller.signal)) {
+      outcome.observe(event);
 
-    for await (const event of agent.run(message)) {
       if (event.type === AgentEventType.TEXT_DELTA) {
         tui.streamAssistantDelta(event.data.content);
       } else if (event.type === AgentEventType.TEXT_COMPLETE) {
-        finalResponse = event.data.content;
         console.log(); // New line after streaming
       } else if (event.type === AgentEventType.AGENT_ERROR) {
         tui.printError(event.data.error);
+      } else if (event.type === AgentEventType.AGENT_CANCELLED) {
+        tui.printWarning(event.data.reason);
       } else if (event.type === AgentEventType.TOOL_CALL_START) {
         tui.toolCallStart(
           event.data.call_id || event.data.callId || "",
@@ -46,6 +225,10 @@ async function runSingle(message: string, cwd?: string): Promise<void> {
           event.data.arguments || {},
           undefined // Tool kind not available in event
         );
+      } else if (event.type === AgentEventType.COMPACTION_COMPLETE) {
+        tui.printCompaction(event.data);
+      } else if (event.type === AgentEventType.LOOP_DETECTED) {
+        tui.printLoopDetected(event.data);
       } else if (event.type === AgentEventType.TOOL_CALL_COMPLETE) {
         tui.toolCallComplete(
           event.data.call_id || event.data.callId || "",
@@ -58,15 +241,129 @@ async function runSingle(message: string, cwd?: string): Promise<void> {
       }
     }
 
-    if (!finalResponse) {
-      process.exit(1);
+  } finally {
+    process.removeListener("SIGINT", onSigint);
+    await agent.close();
+  }
+
+  if (outcome.exitCode !== ExitCode.SUCCESS) {
+    process.exit(outcome.exitCode);
+  }
+}
+
+async function runHeadless(
+  message: string,
+  outputFormat: Exclude<OutputFormat, "text">,
+  cwd?: string,
+  resume?: ResumeTarget
+): Promise<void> {
+  const renderer = new HeadlessRenderer(outputFormat);
+
+  let config;
+  try {
+    config = loadConfig(cwd);
+  } catch (error: any) {
+    renderer.fail(error.message || String(error));
+    process.exit(renderer.finish());
+  }
+
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    for (const error of errors) {
+      renderer.fail(error);
+    }
+    process.exit(renderer.finish());
+  }
+
+  enforceRetention(config, resume);
+  const agent = new Agent(config);
+  await agent.initialize();
+  if (resume) {
+    try {
+      await agent.restoreSession(loadResumeSnapshot(config, resume));
+    } catch (error: any) {
+      renderer.fail(error.message || String(error));
+      await agent.close();
+      process.exit(renderer.finish());
+    }
+  }
+
+  const controller = new AbortController();
+  const onSigint = (): void => controller.abort();
+  process.once("SIGINT", onSigint);
+
+  try {
+    for await (const event of agent.run(message, controller.signal)) {
+      renderer.handle(event);
     }
+  } catch (error: any) {
+    renderer.fail(error.message || String(error));
   } finally {
+    process.removeListener("SIGINT", onSigint);
     await agent.close();
   }
+
+  process.exit(renderer.finish());
 }
 
-async function runInteractive(cwd?: string): Promise<void> {
+async function runServe(options: {
+  cwd?: string;
+  host: string;
+  port: string;
+  token?: string;
+}): Promise<void> {
+  const config = loadConfig(options.cwd);
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(chalk.red(`Error: ${error}`));
+    }
+    process.exit(1);
+  }
+
+  enforceRetention(config);
+  const port = parseInt(options.port, 10);
+  if (isNaN(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`Error: Invalid port: ${options.port}`));
+    process.exit(1);
+  }
+
+  const server = new AgentServer(config, {
+    host: options.host,
+    port,
+    token: options.token || process.env.AI_AGENT_SERVER_TOKEN,
+  });
+  const url = await server.start();
+  console.error(chalk.green(`Agent server listening on ${url}`));
+  if (!options.token && !process.env.AI_AGENT_SERVER_TOKEN) {
+    console.error(`Bearer token: ${server.token}`);
+  }
+
+  process.once("SIGINT", async () => {
+    await server.stop();
+    process.exit(0);
+  });
+}
+
+async function runStdioRpc(cwd?: string): Promise<void> {
+  // stdout is reserved for protocol messages
+  console.log = console.error;
+
+  const config = loadConfig(cwd);
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(`Error: ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const server = new StdioRpcServer(config);
+  await server.serve();
+  process.exit(0);
+}
+
+async function runInteractive(cwd?: string, resume?: ResumeTarget): Promise<void> {
   const config = loadConfig(cwd);
   const errors = validateConfig(config);
 
@@ -79,11 +376,22 @@ async function runInteractive(cwd?: string): Promise<void> {
     process.exit(1);
   }
 
+  enforceRetention(config, resume);
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
+  // Ctrl+C cancels the running turn; at the prompt it exits as before
+  let activeController: AbortController | null = null;
+  rl.on("SIGINT", () => {
+    if (activeController) {
+      activeController.abort();
+      return;
+    }
+    process.exit(130);
+  });
+
   const question = (prompt: string): Promise<string> => {
     return new Promise((resolve) => {
       rl.question(prompt, resolve);
@@ -101,10 +409,22 @@ async function runInteractive(cwd?: string): Promise<void> {
   });
 
   await agent.initialize();
+  if (resume) {
+    const session = await agent.restoreSession(loadResumeSnapshot(config, resume));
+    tui.printInfo(`Resumed session ${session.sessionId} (${session.turnCount} turns)`);
+  }
 
   try {
     while (true) {
-      const userInput = (await question("\n" + chalk.blue.bold("[user]") + "> ")).trim();
+      // Show the branch path once the conversation has been forked
+      const history = agent.session?.history;
+      const branchLabel =
+        history && history.branchCount > 1
+          ? " " + chalk.magenta(history.lineage().join(" › "))
+          : "";
+      const userInput = (
+        await question("\n" + chalk.blue.bold("[user]") + branchLabel + "> ")
+      ).trim();
       if (!userInput) {
         continue;
       }
@@ -117,7 +437,12 @@ async function runInteractive(cwd?: string): Promise<void> {
         continue;
       }
 
-      await processMessage(userInput, agent, tui);
+      activeController = new AbortController();
+      try {
+        await processMessage(userInput, agent, tui, activeController.signal);
+      } finally {
+        activeController = null;
+      }
     }
   } finally {
     rl.close();
@@ -136,6 +461,8 @@ async function handleCommand(
   const parts = cmd.split(/\s+/);
   const cmdName = parts[0];
   const cmdArgs = parts.slice(1).join(" ");
+  // Argument text with its original casing (model IDs, paths, instructions)
+  const rawArgs = command.trim().split(/\s+/).slice(1).join(" ");
 
   if (cmdName === "/exit" || cmdName === "/quit") {
     return false;
@@ -158,20 +485,26 @@ async function handleCommand(
     console.log(`  Max Turns: ${config.maxTurns}`);
     console.log(`  Hooks Enabled: ${config.hooksEnabled}`);
   } else if (cmdName === "/model") {
-    if (cmdArgs) {
-      config.modelName = cmdArgs;
-      tui.printSuccess(`Model changed to: ${cmdArgs}`);
+    if (rawArgs) {
+      const model = switchMainModel(config, rawArgs);
+      tui.printSuccess(`Model changed to: ${model.name} (profile: ${model.profile})`);
     } else {
-      tui.printInfo(`Current model: ${config.modelName}`);
+      const current = resolveModelForRole(config, "main");
+      tui.printModels(
+        getProfileNames(config).map((name) => resolveModel(config, name)),
+        current.profile
+      );
     }
   } else if (cmdName === "/approval") {
     if (cmdArgs) {
-      try {
+      const policies = Object.values(ApprovalPolicy) as string[];
+      if (policies.includes(cmdArgs)) {
         config.approval = cmdArgs as ApprovalPolicy;
+        agent?.session?.approvalManager.setApprovalPolicy(config.approval);
         tui.printSuccess(`Approval policy changed to: ${cmdArgs}`);
-      } catch {
+      } else {
         tui.printError(`Incorrect approval policy: ${cmdArgs}`);
-        tui.printInfo(`Valid options: ${Object.values(ApprovalPolicy).join(", ")}`);
+        tui.printInfo(`Valid options: ${policies.join(", ")}`);
       }
     } else {
       tui.printInfo(`Current approval policy: ${config.approval}`);
@@ -191,6 +524,12 @@ async function handleCommand(
     } else {
       tui.printError("No active session");
     }
+  } else if (command === "/context") {
+    if (agent && agent.session && agent.session.contextManager) {
+      tui.printContextBreakdown(agent.session.contextManager.getBreakdown());
+    } else {
+      tui.printError("No active session");
+    }
   } else if (command === "/tools") {
     if (agent && agent.session) {
       const tools = agent.session.toolRegistry.getTools();
@@ -246,20 +585,77 @@ async function handleCommand(
     }
 
     const session = agent.session;
-    const persistenceManager = new PersistenceManager();
-    const { TokenUsage } = await import("./client/response.js");
-    const sessionSnapshot = new SessionSnapshot(
-      session.sessionId,
-      session.createdAt,
-      session.updatedAt,
-      session.turnCount,
-      session.contextManager?.getMessages() || [],
-      session.contextManager?.totalUsage || new TokenUsage()
-    );
+    const persistenceManager = PersistenceManager.fromConfig(config);
+    const sessionSnapshot = session.toSnapshot();
     persistenceManager.saveSession(sessionSnapshot);
     tui.printSuccess(`Session saved: ${session.sessionId}`);
+  } else if (cmdName === "/sessions" && parts[1] === "search") {
+    const query = parts.slice(2).join(" ");
+    if (!query) {
+      tui.printError("Usage: /sessions search <query>");
+      return true;
+    }
+    tui.printSearchResults(query, new SessionIndex(PersistenceManager.fromConfig(config)).search(query));
+  } else if (cmdName === "/sessions" && (parts[1] === "pin" || parts[1] === "unpin")) {
+    const sessionId = parts[2] || agent?.session?.sessionId;
+    if (!sessionId) {
+      tui.printError(`Usage: /sessions ${parts[1]} [session_id]`);
+      return true;
+    }
+
+    const persistenceManager = PersistenceManager.fromConfig(config);
+    // The active session may not have been saved yet
+    if (sessionId === agent?.session?.sessionId) {
+      persistenceManager.saveSession(agent.session.toSnapshot());
+    }
+    const pinned = parts[1] === "pin";
+    if (!persistenceManager.pinSession(sessionId, pinned)) {
+      tui.printError("Session does not exist");
+      return true;
+    }
+    tui.printSuccess(`${pinned ? "Pinned" : "Unpinned"} session: ${sessionId}`);
+  } else if (cmdName === "/sessions" && parts[1] === "delete") {
+    const sessionId = parts[2];
+    if (!sessionId) {
+      tui.printError("Usage: /sessions delete <session_id>");
+      return true;
+    }
+    if (sessionId === agent?.session?.sessionId) {
+      tui.printError("Cannot delete the active session");
+      return true;
+    }
+    if (!(await tui.confirm(`Delete session ${sessionId}?`))) {
+      tui.printDim("Delete cancelled");
+      return true;
+    }
+
+    if (!PersistenceManager.fromConfig(config).deleteSession(sessionId)) {
+      tui.printError("Session does not exist");
+      return true;
+    }
+    tui.printSuccess(`Deleted session: ${sessionId}`);
+  } else if (cmdName === "/sessions" && parts[1] === "rename") {
+    // `/sessions rename <title>` renames the active session
+    const persistenceManager = PersistenceManager.fromConfig(config);
+    const named = parts.length > 3 && persistenceManager.loadSession(parts[2]) !== null;
+    const sessionId = named ? parts[2] : agent?.session?.sessionId;
+    // Titles keep the case they were typed in
+    const title = command.trim().split(/\s+/).slice(named ? 3 : 2).join(" ");
+    if (!sessionId || !title) {
+      tui.printError("Usage: /sessions rename [session_id] <title>");
+      return true;
+    }
+
+    if (sessionId === agent?.session?.sessionId) {
+      agent.session.title = title;
+      persistenceManager.saveSession(agent.session.toSnapshot());
+    } else if (!persistenceManager.renameSession(sessionId, title)) {
+      tui.printError("Session does not exist");
+      return true;
+    }
+    tui.printSuccess(`Renamed session ${sessionId}: ${title}`);
   } else if (cmdName === "/sessions") {
-    const persistenceManager = new PersistenceManager();
+    const persistenceManager = PersistenceManager.fromConfig(config);
     const sessions = persistenceManager.listSessions();
     tui.printSessions(sessions);
   } else if (cmdName === "/resume") {
@@ -273,45 +669,14 @@ async function handleCommand(
       return true;
     }
 
-    const persistenceManager = new PersistenceManager();
+    const persistenceManager = PersistenceManager.fromConfig(config);
     const snapshot = persistenceManager.loadSession(cmdArgs);
     if (!snapshot) {
       tui.printError("Session does not exist");
       return true;
     }
 
-    const session = new Session(config);
-    await session.initialize();
-    session.sessionId = snapshot.sessionId;
-    session.createdAt = snapshot.createdAt;
-    session.updatedAt = snapshot.updatedAt;
-    session.turnCount = snapshot.turnCount;
-    if (session.contextManager) {
-      session.contextManager.totalUsage = snapshot.totalUsage;
-
-      for (const msg of snapshot.messages) {
-        if (msg.role === "system") {
-          continue;
-        } else if (msg.role === "user") {
-          session.contextManager.addUserMessage(msg.content || "");
-        } else if (msg.role === "assistant") {
-          session.contextManager.addAssistantMessage(
-            msg.content || null,
-            msg.tool_calls || null
-          );
-        } else if (msg.role === "tool") {
-          session.contextManager.addToolResult(
-            msg.tool_call_id || "",
-            msg.content || ""
-          );
-        }
-      }
-    }
-
-    if (agent.session) {
-      await agent.session.client.close();
-    }
-    agent.session = session;
+    const session = await agent.restoreSession(snapshot);
     tui.printSuccess(`Resumed session: ${session.sessionId}`);
   } else if (cmdName === "/checkpoint") {
     if (!agent || !agent.session) {
@@ -320,16 +685,9 @@ async function handleCommand(
     }
 
     const session = agent.session;
-    const persistenceManager = new PersistenceManager();
-    const { TokenUsage } = await import("./client/response.js");
-    const sessionSnapshot = new SessionSnapshot(
-      session.sessionId,
-      session.createdAt,
-      session.updatedAt,
-      session.turnCount,
-      session.contextManager?.getMessages() || [],
-      session.contextManager?.totalUsage || new TokenUsage()
-    );
+    const persistenceManager = PersistenceManager.fromConfig(config);
+    const sessionSnapshot = session.toSnapshot();
+    sessionSnapshot.state.workspace = await session.snapshotWorkspace("checkpoint");
     const checkpointId = persistenceManager.saveCheckpoint(sessionSnapshot);
     tui.printSuccess(`Checkpoint created: ${checkpointId}`);
   } else if (cmdName === "/restore") {
@@ -343,46 +701,253 @@ async function handleCommand(
       return true;
     }
 
-    const persistenceManager = new PersistenceManager();
+    const persistenceManager = PersistenceManager.fromConfig(config);
     const snapshot = persistenceManager.loadCheckpoint(cmdArgs);
     if (!snapshot) {
       tui.printError("Checkpoint does not exist");
       return true;
     }
 
-    const session = new Session(config);
-    await session.initialize();
-    session.sessionId = snapshot.sessionId;
-    session.createdAt = snapshot.createdAt;
-    session.updatedAt = snapshot.updatedAt;
-    session.turnCount = snapshot.turnCount;
-    if (session.contextManager) {
-      session.contextManager.totalUsage = snapshot.totalUsage;
-
-      for (const msg of snapshot.messages) {
-        if (msg.role === "system") {
-          continue;
-        } else if (msg.role === "user") {
-          session.contextManager.addUserMessage(msg.content || "");
-        } else if (msg.role === "assistant") {
-          session.contextManager.addAssistantMessage(
-            msg.content || null,
-            msg.tool_calls || null
-          );
-        } else if (msg.role === "tool") {
-          session.contextManager.addToolResult(
-            msg.tool_call_id || "",
-            msg.content || ""
-          );
+    const store = agent.session?.shadowStore;
+    const workspace = snapshot.state.workspace;
+    if (workspace && store) {
+      try {
+        const changes = await store.preview(workspace);
+        if (changes.length > 0) {
+          tui.printInfo("Restoring the checkpoint changes these files:");
+          tui.printFileChanges(changes);
+          if (!(await tui.confirm("Restore checkpoint?"))) {
+            tui.printDim("Restore cancelled");
+            return true;
+          }
+          await store.restore(workspace);
         }
+      } catch (error: any) {
+        tui.printError(`Could not restore files: ${error.message}`);
+        return true;
       }
+    } else if (workspace) {
+      tui.printWarning("File checkpoints are disabled; restoring the conversation only");
     }
 
-    if (agent.session) {
-      await agent.session.client.close();
-    }
-    agent.session = session;
+    const session = await agent.restoreSession(snapshot);
     tui.printSuccess(`Restored session: ${session.sessionId}, checkpoint: ${cmdArgs}`);
+  } else if (cmdName === "/export") {
+    const usage = "Usage: /export <markdown|html|json> [path] [--redact] [--max-tool-output <chars>]";
+    // Only the format and flags are case-insensitive; the path keeps its casing
+    const tokens = rawArgs.split(/\s+/).filter(Boolean);
+    const formatArg = tokens[0]?.toLowerCase();
+    const format = (formatArg === "md" ? "markdown" : formatArg) as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      tui.printError(usage);
+      return true;
+    }
+
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    let path: string | undefined;
+    let redact = false;
+    let maxToolOutput: string | undefined;
+    for (let i = 1; i < tokens.length; i++) {
+      const flag = tokens[i].toLowerCase();
+      if (flag === "--redact") {
+        redact = true;
+      } else if (flag === "--max-tool-output") {
+        maxToolOutput = tokens[++i] ?? "";
+      } else if (!path && !tokens[i].startsWith("--")) {
+        path = tokens[i];
+      } else {
+        tui.printError(usage);
+        return true;
+      }
+    }
+
+    const session = agent.session;
+    const target = resolve(
+      config.cwd,
+      path || `session-${session.sessionId.slice(0, 8)}.${EXPORT_EXTENSIONS[format]}`
+    );
+    try {
+      const content = exportSession(session.toSnapshot(), format, {
+        redact,
+        knownSecrets: exportSecrets(config),
+        maxToolOutput: parseMaxToolOutput(maxToolOutput),
+      });
+      writeFileSync(target, content, "utf-8");
+      tui.printSuccess(`Exported session to ${target}`);
+    } catch (error: any) {
+      tui.printError(`Export failed: ${error.message}`);
+    }
+  } else if (cmdName === "/compact") {
+    if (!agent || !agent.session || !agent.session.contextManager) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    const session = agent.session;
+    const contextManager = session.contextManager!;
+    // Instructions keep the case they were typed in
+    const instructions = command.trim().slice(cmdName.length).trim() || null;
+    const tokensBefore = contextManager.estimateRequestTokens();
+
+    tui.printDim("Summarizing older turns...");
+    const result = await session.prepareCompaction(instructions);
+    if (!result) {
+      tui.printInfo(
+        `Nothing to compact: the conversation is no longer than the last ` +
+          `${config.compaction.preserveTurns} turns kept as they are`
+      );
+      return true;
+    }
+    if (result.fallback) {
+      tui.printWarning("The summary call failed; this summary only lists your requests");
+    }
+
+    const preserved = contextManager.messageCount - result.keepFrom;
+    while (true) {
+      tui.printCompactionPreview(result.summary, result.keepFrom, preserved);
+      const choice = await tui.choose("Replace the context with this summary?", [
+        "accept",
+        "edit",
+        "cancel",
+      ]);
+
+      if (choice === "edit") {
+        const edited = tui.editText(result.summary);
+        if (edited === null) {
+          tui.printError("Editor exited with an error; summary unchanged");
+        } else if (edited.trim()) {
+          result.summary = edited;
+        }
+        continue;
+      }
+      if (choice !== "accept") {
+        tui.printDim("Compaction cancelled");
+        return true;
+      }
+      break;
+    }
+
+    session.applyCompaction(result);
+    tui.printCompaction({
+      tokens_before: tokensBefore,
+      tokens_after: contextManager.estimateRequestTokens(),
+      summarized_messages: result.keepFrom,
+      preserved_messages: preserved,
+      fallback: result.fallback,
+    });
+  } else if (cmdName === "/undo") {
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    const session = agent.session;
+    const count = cmdArgs ? Number(cmdArgs) : 1;
+    try {
+      const turns = session.history.lastTurns(count);
+      tui.printInfo(`Undo ${turns.length} turn(s):`);
+      for (const turn of turns) {
+        tui.printDim(`  > ${turn.prompt}`);
+      }
+
+      const workspace = turns[0].workspace;
+      if (workspace && session.shadowStore) {
+        tui.printBold("Files:");
+        tui.printFileChanges(await session.shadowStore.preview(workspace));
+      } else {
+        tui.printWarning("No file snapshot for these turns; only the conversation is rolled back");
+      }
+
+      if (!(await tui.confirm("Roll back?"))) {
+        tui.printDim("Undo cancelled");
+        return true;
+      }
+
+      const changes = await session.undoTurns(count);
+      tui.printSuccess(`Rolled back ${turns.length} turn(s), restored ${changes.length} file(s)`);
+    } catch (error: any) {
+      tui.printError(error.message);
+    }
+  } else if (cmdName === "/turns") {
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    const history = agent.session.history;
+    tui.printTurns(history.path(), history.alternatives());
+  } else if (cmdName === "/fork") {
+    const [turnArg, name] = rawArgs.split(/\s+/);
+    if (!turnArg) {
+      tui.printError("Usage: /fork <turn> [name]");
+      return true;
+    }
+
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    try {
+      const turnNumber = Number(turnArg);
+      const replaced = agent.session.history.path()[turnNumber - 1];
+      const branch = agent.session.forkBranch(turnNumber, name);
+      tui.printSuccess(`Created branch ${branch.name} before turn ${turnNumber}`);
+      tui.printDim(`Your next message replaces: ${replaced.prompt}`);
+    } catch (error: any) {
+      tui.printError(error.message);
+    }
+  } else if (cmdName === "/branches") {
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    const history = agent.session.history;
+    const branches = history.listBranches();
+    const turnCounts = new Map(branches.map((b) => [b.name, history.path(b.name).length]));
+    tui.printBranches(branches, turnCounts, history.current);
+  } else if (cmdName === "/branch") {
+    if (!rawArgs) {
+      tui.printError("Usage: /branch <name>");
+      return true;
+    }
+
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    try {
+      const branch = agent.session.switchBranch(rawArgs);
+      const turns = agent.session.history.path().length;
+      tui.printSuccess(`Switched to branch ${branch.name} (${turns} turns)`);
+    } catch (error: any) {
+      tui.printError(error.message);
+    }
+  } else if (cmdName === "/branch-diff") {
+    const [left, right] = rawArgs.split(/\s+/);
+    if (!left) {
+      tui.printError("Usage: /branch-diff <branch> [other_branch]");
+      return true;
+    }
+
+    if (!agent || !agent.session) {
+      tui.printError("No active session");
+      return true;
+    }
+
+    const history = agent.session.history;
+    const other = right || history.current;
+    try {
+      tui.printBranchComparison(left, other, history.compare(left, other));
+    } catch (error: any) {
+      tui.printError(error.message);
+    }
   } else {
     tui.printError(`Unknown command: ${cmdName}`);
   }
@@ -390,16 +955,24 @@ async function handleCommand(
   return true;
 }
 
-async function processMessage(message: string, agentInstance: Agent, tui: TUI): Promise<void> {
+async function processMessage(
+  message: string,
+  agentInstance: Agent,
+  tui: TUI,
+  signal?: AbortSignal
+): Promise<void> {
   tui.beginAssistant();
 
-  for await (const event of agentInstance.run(message)) {
+  for await (const event of agentInstance.run(message, signal)) {
     if (event.type === AgentEventType.TEXT_DELTA) {
       tui.streamAssistantDelta(event.data.content);
     } else if (event.type === AgentEventType.TEXT_COMPLETE) {
       console.log(); // New line after streaming
     } else if (event.type === AgentEventType.AGENT_ERROR) {
       tui.printError(`Error: ${event.data.error}`);
+    } else if (event.type === AgentEventType.AGENT_CANCELLED) {
+      console.log();
+      tui.printWarning(event.data.reason);
     } else if (event.type === AgentEventType.TOOL_CALL_START) {
       tui.toolCallStart(
         event.data.call_id || event.data.callId || "",
@@ -407,6 +980,10 @@ async function processMessage(message: string, agentInstance: Agent, tui: TUI):
         event.data.arguments || {},
         undefined // Tool kind not available in event
       );
+    } else if (event.type === AgentEventType.COMPACTION_COMPLETE) {
+      tui.printCompaction(event.data);
+    } else if (event.type === AgentEventType.LOOP_DETECTED) {
+      tui.printLoopDetected(event.data);
     } else if (event.type === AgentEventType.TOOL_CALL_COMPLETE) {
       tui.toolCallComplete(
         event.data.call_id || event.data.callId || "",
@@ -428,14 +1005,74 @@ program
   .name("ai-agent")
   .description("AI coding agent with tool calling")
   .version("1.0.0")
+  // Let subcommands have their own -c/--cwd instead of the root one taking it
+  .enablePositionalOptions()
   .argument("[prompt]", "Prompt to execute (if not provided, starts interactive mode)")
   .option("-c, --cwd <path>", "Current working directory")
-  .action(async (prompt?: string, options?: { cwd?: string }) => {
+  .addOption(
+    new Option(
+      "--output-format <format>",
+      "Output format for single-prompt runs"
+    )
+      .choices(OUTPUT_FORMATS)
+      .default("text")
+  )
+  .option("--stdio-rpc", "Speak JSON-RPC over stdin/stdout for editor integrations")
+  .option("--continue", "Resume the most recent session in this directory")
+  .option("--resume <session_id>", "Resume a saved session")
+  .action(async (
+    prompt?: string,
+    options?: {
+      cwd?: string;
+      outputFormat?: OutputFormat;
+      stdioRpc?: boolean;
+      continue?: boolean;
+      resume?: string;
+    }
+  ) => {
+    const resume: ResumeTarget = options?.resume || options?.continue || undefined;
+    try {
+      if (options?.stdioRpc) {
+        await runStdioRpc(options.cwd);
+      } else if (prompt) {
+        await runSingle(prompt, options?.cwd, options?.outputFormat, resume);
+      } else {
+        await runInteractive(options?.cwd, resume);
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+const sessionsCommand = program
+  .command("sessions")
+  .description("Manage saved sessions");
+
+sessionsCommand
+  .command("search")
+  .description("Search saved sessions by content")
+  .argument("<query...>", "Words to look for")
+  .option("-c, --cwd <path>", "Directory whose config to use")
+  .option("-n, --limit <count>", "Maximum number of results", "10")
+  .option("--json", "Print results as JSON")
+  .action((
+    queryWords: string[],
+    options: { cwd?: string; limit: string; json?: boolean }
+  ) => {
     try {
-      if (prompt) {
-        await runSingle(prompt, options?.cwd);
+      const config = loadConfig(options.cwd);
+      const query = queryWords.join(" ");
+      const limit = parseInt(options.limit, 10);
+      const hits = new SessionIndex(PersistenceManager.fromConfig(config)).search(
+        query,
+        isNaN(limit) ? 10 : limit
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(hits, null, 2));
       } else {
-        await runInteractive(options?.cwd);
+        new TUI(config).printSearchResults(query, hits);
       }
     } catch (error: any) {
       console.error(`Error: ${error.message}`);
@@ -443,4 +1080,79 @@ program
     }
   });
 
+sessionsCommand
+  .command("prune")
+  .description("Delete and compress saved sessions per the retention policy")
+  .option("-c, --cwd <path>", "Directory whose config to use")
+  .option("--dry-run", "Show what would be removed without removing it")
+  .option("--json", "Print the report as JSON")
+  .action((options: { cwd?: string; dryRun?: boolean; json?: boolean }) => {
+    try {
+      runPrune(options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("migrate")
+  .description("Encrypt existing sessions, checkpoints and memory with the configured key")
+  .option("-c, --cwd <path>", "Directory whose config to use")
+  .action((options: { cwd?: string }) => {
+    try {
+      runMigrate(options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("export")
+  .description("Export a saved session as Markdown, HTML or JSON")
+  .argument("<session_id>", "Session to export")
+  .option("-c, --cwd <path>", "Directory whose config to use")
+  .addOption(
+    new Option("-f, --format <format>", "Output format")
+      .choices(EXPORT_FORMATS)
+      .default("markdown")
+  )
+  .option("-o, --output <path>", "Write to a file instead of stdout")
+  .option("--redact", "Redact API keys, tokens and passwords")
+  .option("--max-tool-output <chars>", "Leave out tool outputs longer than this")
+  .action((
+    sessionId: string,
+    options: {
+      cwd?: string;
+      format: ExportFormat;
+      output?: string;
+      redact?: boolean;
+      maxToolOutput?: string;
+    }
+  ) => {
+    try {
+      runExport(sessionId, options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("serve")
+  .description("Serve agent sessions over a local HTTP/SSE API")
+  .option("-c, --cwd <path>", "Current working directory")
+  .option("--host <host>", "Host to bind", "127.0.0.1")
+  .option("-p, --port <port>", "Port to listen on", "4096")
+  .option("--token <token>", "Bearer token required on requests (or AI_AGENT_SERVER_TOKEN; random if unset)")
+  .action(async (options: { cwd?: string; host: string; port: string; token?: string }) => {
+    try {
+      await runServe(options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 program.parse();
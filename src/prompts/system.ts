@@ -2,38 +2,66 @@ import { Config } from "../config/config.js";
 import { Tool } from "../tools/base.js";
 import * as os from "os";
 
-export function getSystemPrompt(
+/** One named part of the system prompt, for size breakdowns. */
+export interface PromptSection {
+  name: string;
+  content: string;
+}
+
+/**
+ * The system prompt in parts, ordered from the most to the least stable so
+ * that providers can reuse a cached prefix across sessions: fixed text
+ * first, then tools and instructions, then the date, directory and memory.
+ */
+export function getSystemPromptSections(
   config: Config,
   userMemory?: string | null,
-  tools?: Tool[] | null
-): string {
-  const parts: string[] = [];
+  tools?: Tool[] | null,
+  now: Date = new Date()
+): PromptSection[] {
+  const sections: PromptSection[] = [];
 
-  parts.push(getIdentitySection());
-  parts.push(getEnvironmentSection(config));
+  sections.push({ name: "Identity", content: getIdentitySection() });
+  sections.push({ name: "AGENTS.md guidance", content: getAgentsMdSection() });
+  sections.push({ name: "Security", content: getSecuritySection() });
+  sections.push({ name: "Operational", content: getOperationalSection() });
 
   if (tools) {
-    parts.push(getToolGuidelinesSection(tools));
+    sections.push({ name: "Tool guidelines", content: getToolGuidelinesSection(tools) });
   }
 
-  parts.push(getAgentsMdSection());
-  parts.push(getSecuritySection());
-
   if (config.developerInstructions) {
-    parts.push(getDeveloperInstructionsSection(config.developerInstructions));
+    // AGENT.MD, unless the config sets the instructions itself
+    sections.push({
+      name: "Project instructions",
+      content: getDeveloperInstructionsSection(config.developerInstructions),
+    });
   }
 
   if (config.userInstructions) {
-    parts.push(getUserInstructionsSection(config.userInstructions));
+    sections.push({
+      name: "User instructions",
+      content: getUserInstructionsSection(config.userInstructions),
+    });
   }
 
+  sections.push({ name: "Environment", content: getEnvironmentSection(config, now) });
+
   if (userMemory) {
-    parts.push(getMemorySection(userMemory));
+    sections.push({ name: "Memory", content: getMemorySection(userMemory) });
   }
 
-  parts.push(getOperationalSection());
+  return sections;
+}
 
-  return parts.join("\n\n");
+export function getSystemPrompt(
+  config: Config,
+  userMemory?: string | null,
+  tools?: Tool[] | null
+): string {
+  return getSystemPromptSections(config, userMemory, tools)
+    .map((section) => section.content)
+    .join("\n\n");
 }
 
 function getIdentitySection(): string {
@@ -50,8 +78,7 @@ Your capabilities:
 You are pair programming with the user to help them accomplish their goals. You should be proactive, thorough and focused on delivering high-quality results.`;
 }
 
-function getEnvironmentSection(config: Config): string {
-  const now = new Date();
+function getEnvironmentSection(config: Config, now: Date): string {
   const osInfo = `${os.platform()} ${os.release()}`;
   const shell = getShellInfo();
 
@@ -294,7 +321,11 @@ You have access to the following tools to accomplish your tasks:
   return guidelines;
 }
 
-export function getCompressionPrompt(): string {
+export function getCompressionPrompt(instructions?: string | null): string {
+  const focus = instructions
+    ? `\n\n## USER INSTRUCTIONS FOR THIS SUMMARY\n${instructions}\nFollow these in addition to the structure above.`
+    : "";
+
   return `Provide a detailed continuation prompt for resuming this work. The new session will NOT have access to our conversation history.
 
 IMPORTANT: Structure your response EXACTLY as follows:
@@ -320,7 +351,7 @@ IMPORTANT: Structure your response EXACTLY as follows:
 ## KEY CONTEXT
 [Any important decisions, constraints, user preferences, technical context or assumptions that must persist.]
 
-Be extremely specific with file paths and function names. The goal is to allow seamless continuation without redoing any completed work.`;
+Be extremely specific with file paths and function names. The goal is to allow seamless continuation without redoing any completed work.${focus}`;
 }
 
 export function createLoopBreakerPrompt(loopDescription: string): string {
@@ -339,3 +370,19 @@ To break out of this loop, please:
 Do not repeat the same action again.
 `;
 }
+
+export function createPlanReviewPrompt(loopDescription: string): string {
+  return `
+[SYSTEM NOTICE: Plan Review Required]
+
+You are still repeating yourself after an earlier warning:
+${loopDescription}
+
+Tools are unavailable for this response. Review your plan instead:
+1. State the goal and what has been done so far
+2. Explain why the recent attempts did not work
+3. Lay out a different approach, step by step
+
+Then stop; you will get the tools back to carry out the new plan.
+`;
+}
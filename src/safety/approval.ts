@@ -93,6 +93,19 @@ export class ApprovalManager {
     private cwd: string
   ) {}
 
+  get policy(): ApprovalPolicy {
+    return this.approvalPolicy;
+  }
+
+  setApprovalPolicy(policy: ApprovalPolicy): void {
+    this.approvalPolicy = policy;
+  }
+
+  /** Whether anyone can answer a confirmation; without a callback every request is approved. */
+  get canAsk(): boolean {
+    return this.confirmationCallback !== undefined;
+  }
+
   setConfirmationCallback(
     callback: (confirmation: ToolConfirmation) => boolean | Promise<boolean>
   ): void {
@@ -0,0 +1,255 @@
+import { spawn } from "child_process";
+import { createHash } from "crypto";
+import { existsSync, lstatSync, mkdirSync, unlinkSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { getDataDir } from "../config/loader.js";
+
+export type FileChangeStatus = "modified" | "added" | "deleted";
+
+/** How restoring a snapshot would change one file in the workspace. */
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+}
+
+// Per git operation; snapshots of very large trees give up rather than hang
+const GIT_TIMEOUT_MS = 60_000;
+
+const SNAPSHOT_REF = "refs/heads/snapshots";
+
+// Shadow repositories live in this directory of the data dir
+export const SHADOW_DIR_NAME = "shadow";
+// Written into each shadow repository: the workspace it snapshots
+export const WORKTREE_FILE = "ai-agent-worktree";
+
+/**
+ * Snapshots of the workspace kept in a private git repository under the
+ * data dir. The repository has its own GIT_DIR and index, so the user's
+ * own repo is never touched. Only workspaces inside a git work tree are
+ * snapshotted, and only the files that repo does not ignore.
+ */
+export class ShadowStore {
+  private readonly gitDir: string;
+  private initialized = false;
+
+  constructor(
+    private readonly workTree: string,
+    // Refuse to snapshot more than this many bytes of files; 0 for no limit
+    private readonly maxBytes: number = 0,
+    storeRoot: string = join(getDataDir(), SHADOW_DIR_NAME)
+  ) {
+    const key = createHash("sha256").update(resolve(workTree)).digest("hex").slice(0, 16);
+    this.gitDir = join(storeRoot, `${key}.git`);
+  }
+
+  private git(args: string[], input?: string): Promise<string> {
+    return this.run(args, input, {
+      GIT_DIR: this.gitDir,
+      GIT_WORK_TREE: this.workTree,
+      GIT_INDEX_FILE: join(this.gitDir, "index"),
+      // Paths come from ls-files, never patterns
+      GIT_LITERAL_PATHSPECS: "1",
+      GIT_AUTHOR_NAME: "ai-agent",
+      GIT_AUTHOR_EMAIL: "ai-agent@localhost",
+      GIT_COMMITTER_NAME: "ai-agent",
+      GIT_COMMITTER_EMAIL: "ai-agent@localhost",
+    });
+  }
+
+  /** git against the user's own repository, read-only. */
+  private userGit(args: string[]): Promise<string> {
+    return this.run(args, undefined, {});
+  }
+
+  private run(args: string[], input: string | undefined, env: Record<string, string>): Promise<string> {
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn("git", args, {
+        cwd: this.workTree,
+        env: { ...process.env, ...env, GIT_TERMINAL_PROMPT: "0" },
+        stdio: [input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+        timeout: GIT_TIMEOUT_MS,
+      });
+
+      let stdout = "";
+      let stderr = "";
+      child.stdout!.on("data", (chunk) => (stdout += chunk));
+      child.stderr!.on("data", (chunk) => (stderr += chunk));
+      child.on("error", reject);
+      child.on("close", (code) => {
+        if (code === 0) {
+          resolvePromise(stdout);
+        } else {
+          reject(new Error(`git ${args[0]} failed: ${stderr.trim() || `exit ${code}`}`));
+        }
+      });
+
+      if (input !== undefined) {
+        // git reports its own error if it exits before reading everything
+        child.stdin!.on("error", () => {});
+        child.stdin!.end(input);
+      }
+    });
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    const insideWorkTree = await this.userGit(["rev-parse", "--is-inside-work-tree"]).catch(
+      () => "false"
+    );
+    if (insideWorkTree.trim() !== "true") {
+      throw new Error(`${this.workTree} is not inside a git work tree`);
+    }
+
+    if (!existsSync(this.gitDir)) {
+      mkdirSync(this.gitDir, { recursive: true, mode: 0o700 });
+      await this.git(["init", "--quiet"]);
+      // Keep snapshots byte-exact regardless of the user's global config
+      await this.git(["config", "core.autocrlf", "false"]);
+      await this.git(["config", "core.safecrlf", "false"]);
+      await this.git(["config", "gc.auto", "0"]);
+    }
+    this.initialized = true;
+  }
+
+  /**
+   * Workspace files the user's repository tracks or would track, relative
+   * to the workspace. Throws if they add up to more than `maxBytes`.
+   */
+  private async workspaceFiles(): Promise<string[]> {
+    const output = await this.userGit([
+      "ls-files", "--cached", "--others", "--exclude-standard", "-z",
+    ]);
+
+    const files: string[] = [];
+    let totalBytes = 0;
+    for (const path of new Set(output.split("\0").filter((path) => path !== ""))) {
+      let stats;
+      try {
+        stats = lstatSync(join(this.workTree, path));
+      } catch {
+        // Tracked but deleted
+        continue;
+      }
+      // Submodules and other nested repositories are left out
+      if (!stats.isFile() && !stats.isSymbolicLink()) {
+        continue;
+      }
+
+      totalBytes += stats.size;
+      if (this.maxBytes > 0 && totalBytes > this.maxBytes) {
+        const limitMb = +(this.maxBytes / (1024 * 1024)).toFixed(1);
+        throw new Error(`workspace files exceed the ${limitMb} MB checkpoint limit`);
+      }
+      files.push(path);
+    }
+    return files;
+  }
+
+  /** Tree id of the workspace as it is on disk right now. */
+  private async writeTree(): Promise<string> {
+    await this.ensureInitialized();
+    const files = await this.workspaceFiles();
+
+    // Update the index in place, so unchanged files are not hashed again
+    const wanted = new Set(files);
+    const indexed = (await this.git(["ls-files", "-z"])).split("\0");
+    const stale = indexed.filter((path) => path !== "" && !wanted.has(path));
+    if (stale.length > 0) {
+      await this.git(
+        ["rm", "--cached", "--quiet", "--pathspec-from-file=-", "--pathspec-file-nul"],
+        stale.join("\0")
+      );
+    }
+    if (files.length > 0) {
+      // Forced: tracked files may match an ignore rule
+      await this.git(
+        ["add", "--force", "--pathspec-from-file=-", "--pathspec-file-nul"],
+        files.join("\0")
+      );
+    }
+    return (await this.git(["write-tree"])).trim();
+  }
+
+  /** Record the current workspace; returns the snapshot (commit) id. */
+  async snapshot(label: string): Promise<string> {
+    const tree = await this.writeTree();
+    // Rewritten each time: retention reads the last use from its mtime and
+    // drops repositories whose workspace is gone
+    writeFileSync(join(this.gitDir, WORKTREE_FILE), resolve(this.workTree), "utf-8");
+
+    let parent: string | null = null;
+    try {
+      parent = (await this.git(["rev-parse", "--verify", "--quiet", SNAPSHOT_REF])).trim();
+    } catch {
+      // First snapshot
+    }
+
+    // Nothing changed since the last snapshot
+    if (parent) {
+      const parentTree = (await this.git(["rev-parse", `${parent}^{tree}`])).trim();
+      if (parentTree === tree) {
+        return parent;
+      }
+    }
+
+    const commitArgs = ["commit-tree", tree, "-m", label];
+    if (parent) {
+      commitArgs.push("-p", parent);
+    }
+    const commit = (await this.git(commitArgs)).trim();
+    await this.git(["update-ref", SNAPSHOT_REF, commit]);
+    return commit;
+  }
+
+  /** Files that restoring `snapshotId` would change, without touching them. */
+  async preview(snapshotId: string): Promise<FileChange[]> {
+    const current = await this.writeTree();
+    const output = await this.git([
+      "diff-tree", "-r", "--name-status", "--no-renames", "-z", current, snapshotId,
+    ]);
+
+    const fields = output.split("\0").filter((field) => field !== "");
+    const changes: FileChange[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      // Relative to the current files: "A" means restoring brings a file back
+      const status = fields[i];
+      changes.push({
+        path: fields[i + 1],
+        status: status === "A" ? "added" : status === "D" ? "deleted" : "modified",
+      });
+    }
+    return changes;
+  }
+
+  /** Put the workspace back to `snapshotId`; returns what changed. */
+  async restore(snapshotId: string): Promise<FileChange[]> {
+    // Keep the state being replaced, so a mistaken restore can be recovered
+    await this.snapshot("before restore");
+    const changes = await this.preview(snapshotId);
+
+    const toCheckout = changes
+      .filter((change) => change.status !== "deleted")
+      .map((change) => change.path);
+    if (toCheckout.length > 0) {
+      await this.git(
+        ["checkout", snapshotId, "--pathspec-from-file=-", "--pathspec-file-nul"],
+        toCheckout.join("\0")
+      );
+    }
+
+    for (const change of changes) {
+      if (change.status === "deleted") {
+        try {
+          unlinkSync(join(this.workTree, change.path));
+        } catch {
+          // Already gone
+        }
+      }
+    }
+
+    return changes;
+  }
+}
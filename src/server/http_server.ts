@@ -0,0 +1,456 @@
+import { randomBytes, randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { Config, cloneConfig } from "../config/config.js";
+import { Agent } from "../agent/agent.js";
+import { AgentEvent } from "../agent/events.js";
+import { PersistenceManager, SessionSnapshot } from "../agent/persistence.js";
+import { ToolConfirmation } from "../tools/base.js";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export interface ServerOptions {
+  host: string;
+  port: number;
+  // Bearer token required on every request; a random one is made if unset
+  token?: string;
+}
+
+interface PendingApproval {
+  id: string;
+  confirmation: ToolConfirmation;
+  createdAt: Date;
+  resolve: (approved: boolean) => void;
+}
+
+interface ServerSession {
+  agent: Agent;
+  controller: AbortController | null;
+  stream: ServerResponse | null;
+  approvals: Map<string, PendingApproval>;
+}
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export function serializeConfirmation(
+  approvalId: string,
+  confirmation: ToolConfirmation
+): Record<string, any> {
+  return {
+    approval_id: approvalId,
+    tool_name: confirmation.toolName,
+    description: confirmation.description,
+    params: confirmation.params,
+    diff: confirmation.diff?.toDiff() || null,
+    affected_paths: confirmation.affectedPaths,
+    command: confirmation.command || null,
+    is_dangerous: confirmation.isDangerous,
+  };
+}
+
+/**
+ * Local HTTP server exposing agent sessions.
+ *
+ *   GET    /sessions                          list active and saved sessions
+ *   POST   /sessions                          create (or {"resume": id} reload) a session
+ *   GET    /sessions/:id                      session stats
+ *   DELETE /sessions/:id                      close and delete a session
+ *   POST   /sessions/:id/messages             run a prompt, streams AgentEvents as SSE
+ *   POST   /sessions/:id/cancel               cancel the running prompt
+ *   GET    /sessions/:id/approvals            pending approval requests
+ *   POST   /sessions/:id/approvals/:approval  answer one with {"approved": bool}
+ *
+ * Sessions are saved through PersistenceManager after every prompt, so a
+ * restarted server reloads them on first access.
+ *
+ * Every request needs the bearer token. Requests must also name a loopback
+ * (or the bound) host and come from no foreign Origin, and POST bodies must
+ * be JSON, so web pages cannot reach the server by DNS rebinding or
+ * cross-site form posts.
+ */
+export class AgentServer {
+  readonly token: string;
+  private server: Server | null = null;
+  private sessions: Map<string, ServerSession> = new Map();
+  private persistence: PersistenceManager;
+  private allowedHosts: Set<string>;
+
+  constructor(
+    private config: Config,
+    private options: ServerOptions
+  ) {
+    this.token = options.token || randomBytes(32).toString("hex");
+    this.allowedHosts = new Set([...LOOPBACK_HOSTS, options.host.toLowerCase()]);
+    this.persistence = PersistenceManager.fromConfig(config);
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        this.sendJson(res, status, { error: error.message || String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    const address = this.server.address();
+    const port = typeof address === "object" && address ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const id of Array.from(this.sessions.keys())) {
+      await this.closeSession(id, false);
+    }
+
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  /** Hostname of a Host header or Origin URL, lowercased, without the port. */
+  private hostname(value: string): string | null {
+    try {
+      return new URL(value.includes("://") ? value : `http://${value}`).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+  }
+
+  private checkRequest(req: IncomingMessage): void {
+    const host = this.hostname(req.headers.host || "");
+    if (!host || !this.allowedHosts.has(host)) {
+      throw new HttpError(403, "Forbidden host");
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      const originHost = this.hostname(origin);
+      if (!originHost || !this.allowedHosts.has(originHost)) {
+        throw new HttpError(403, "Forbidden origin");
+      }
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.token}`) {
+      throw new HttpError(401, "Unauthorized");
+    }
+
+    const contentType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    if (req.method === "POST" && contentType !== "application/json") {
+      throw new HttpError(415, "Content-Type must be application/json");
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    this.checkRequest(req);
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const parts = url.pathname.split("/").filter(Boolean);
+    const method = req.method || "GET";
+
+    if (parts.length === 1 && parts[0] === "health") {
+      return this.sendJson(res, 200, { status: "ok" });
+    }
+
+    if (parts[0] !== "sessions") {
+      throw new HttpError(404, "Not found");
+    }
+
+    if (parts.length === 1) {
+      if (method === "GET") {
+        return this.sendJson(res, 200, { sessions: this.listSessions() });
+      }
+      if (method === "POST") {
+        const body = await this.readJson(req);
+        const session = await this.createSession(body.resume);
+        return this.sendJson(res, 201, session.agent.session!.getStats());
+      }
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const sessionId = parts[1];
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new HttpError(400, "Invalid session id");
+    }
+
+    if (parts.length === 2) {
+      if (method === "GET") {
+        const session = await this.getSession(sessionId);
+        return this.sendJson(res, 200, session.agent.session!.getStats());
+      }
+      if (method === "DELETE") {
+        // Closing mid-run would let the run save the session again afterwards
+        if (this.sessions.get(sessionId)?.controller) {
+          throw new HttpError(409, "Session is running a prompt; cancel it first");
+        }
+        const closed = await this.closeSession(sessionId, true);
+        if (!closed) {
+          throw new HttpError(404, `Session not found: ${sessionId}`);
+        }
+        return this.sendJson(res, 200, { deleted: sessionId });
+      }
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const session = await this.getSession(sessionId);
+    const action = parts[2];
+
+    if (action === "messages" && parts.length === 3 && method === "POST") {
+      const body = await this.readJson(req);
+      if (typeof body.message !== "string" || !body.message.trim()) {
+        throw new HttpError(400, "'message' must be a non-empty string");
+      }
+      return this.streamRun(session, body.message, req, res);
+    }
+
+    if (action === "cancel" && parts.length === 3 && method === "POST") {
+      session.controller?.abort();
+      return this.sendJson(res, 200, { cancelled: session.controller !== null });
+    }
+
+    if (action === "approvals" && parts.length === 3 && method === "GET") {
+      return this.sendJson(res, 200, {
+        approvals: Array.from(session.approvals.values()).map((a) =>
+          serializeConfirmation(a.id, a.confirmation)
+        ),
+      });
+    }
+
+    if (action === "approvals" && parts.length === 4 && method === "POST") {
+      const approval = session.approvals.get(parts[3]);
+      if (!approval) {
+        throw new HttpError(404, `No pending approval: ${parts[3]}`);
+      }
+      const body = await this.readJson(req);
+      session.approvals.delete(approval.id);
+      approval.resolve(body.approved === true);
+      return this.sendJson(res, 200, { approval_id: approval.id, approved: body.approved === true });
+    }
+
+    throw new HttpError(404, "Not found");
+  }
+
+  private listSessions(): Array<Record<string, any>> {
+    const saved = this.persistence.listSessions();
+    const savedIds = new Set(saved.map((s) => s.session_id));
+    const active = Array.from(this.sessions.values())
+      .map((s) => s.agent.session!)
+      .filter((s) => !savedIds.has(s.sessionId))
+      .map((s) => ({
+        session_id: s.sessionId,
+        created_at: s.createdAt.toISOString(),
+        updated_at: s.updatedAt.toISOString(),
+        turn_count: s.turnCount,
+        title: s.title,
+      }));
+
+    return [...active, ...saved].map((s) => ({
+      ...s,
+      active: this.sessions.has(s.session_id),
+      running: this.sessions.get(s.session_id)?.controller != null,
+    }));
+  }
+
+  private async createSession(resumeId?: string): Promise<ServerSession> {
+    // Check the saved session before starting an agent for it
+    let snapshot: SessionSnapshot | null = null;
+    if (resumeId) {
+      if (!SESSION_ID_PATTERN.test(resumeId)) {
+        throw new HttpError(400, "Invalid session id");
+      }
+      snapshot = this.persistence.loadSession(resumeId);
+      if (!snapshot) {
+        throw new HttpError(404, `Session not found: ${resumeId}`);
+      }
+    }
+
+    const session: ServerSession = {
+      agent: null as unknown as Agent,
+      controller: null,
+      stream: null,
+      approvals: new Map(),
+    };
+
+    // Resuming restores model and approval settings, which must stay per session
+    session.agent = new Agent(cloneConfig(this.config), (confirmation) =>
+      this.requestApproval(session, confirmation)
+    );
+    try {
+      await session.agent.initialize();
+      if (snapshot) {
+        await session.agent.restoreSession(snapshot);
+      }
+    } catch (error) {
+      await session.agent.close();
+      throw error;
+    }
+
+    this.sessions.set(session.agent.session!.sessionId, session);
+    return session;
+  }
+
+  private async getSession(sessionId: string): Promise<ServerSession> {
+    const existing = this.sessions.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+    // Not in memory (e.g. after a restart) - reload from disk
+    return this.createSession(sessionId);
+  }
+
+  private async closeSession(sessionId: string, deleteSaved: boolean): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    let found = false;
+
+    if (session) {
+      found = true;
+      session.controller?.abort();
+      for (const approval of session.approvals.values()) {
+        approval.resolve(false);
+      }
+      session.approvals.clear();
+      await session.agent.close();
+      this.sessions.delete(sessionId);
+    }
+
+    if (deleteSaved) {
+      found = this.persistence.deleteSession(sessionId) || found;
+    }
+
+    return found;
+  }
+
+  private requestApproval(
+    session: ServerSession,
+    confirmation: ToolConfirmation
+  ): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      // Unguessable, so only a client that saw the request can answer it
+      const id = randomUUID();
+      session.approvals.set(id, {
+        id,
+        confirmation,
+        createdAt: new Date(),
+        resolve,
+      });
+
+      if (session.stream) {
+        this.writeSse(
+          session.stream,
+          "approval_request",
+          serializeConfirmation(id, confirmation)
+        );
+      }
+    });
+  }
+
+  private async streamRun(
+    session: ServerSession,
+    message: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (session.controller) {
+      throw new HttpError(409, "Session is already running a prompt");
+    }
+
+    const controller = new AbortController();
+    session.controller = controller;
+    session.stream = res;
+
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    });
+
+    // A client that goes away cancels the run instead of leaving it orphaned
+    const onClose = (): void => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    };
+    req.on("close", onClose);
+
+    try {
+      for await (const event of session.agent.run(message, controller.signal)) {
+        this.writeSse(res, event.type, event.toDict());
+      }
+    } catch (error: any) {
+      const event = AgentEvent.agentError(error.message || String(error));
+      this.writeSse(res, event.type, event.toDict());
+    } finally {
+      req.removeListener("close", onClose);
+      for (const approval of session.approvals.values()) {
+        approval.resolve(false);
+      }
+      session.approvals.clear();
+      session.controller = null;
+      session.stream = null;
+
+      if (session.agent.session) {
+        this.persistence.saveSession(session.agent.session.toSnapshot());
+      }
+      res.end();
+    }
+  }
+
+  private writeSse(res: ServerResponse, event: string, data: Record<string, any>): void {
+    if (res.writableEnded) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private sendJson(res: ServerResponse, status: number, data: Record<string, any>): void {
+    const body = JSON.stringify(data);
+    res.writeHead(status, {
+      "content-type": "application/json",
+      "content-length": Buffer.byteLength(body),
+    });
+    res.end(body);
+  }
+
+  private async readJson(req: IncomingMessage): Promise<Record<string, any>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk);
+    }
+
+    if (size === 0) {
+      return {};
+    }
+
+    try {
+      const data = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      if (!data || typeof data !== "object" || Array.isArray(data)) {
+        throw new Error();
+      }
+      return data;
+    } catch {
+      throw new HttpError(400, "Request body must be a JSON object");
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import { createInterface } from "readline";
+import { Config, cloneConfig, validateConfig } from "../config/config.js";
+import { loadConfig } from "../config/loader.js";
+import { Agent } from "../agent/agent.js";
+import { AgentEventType } from "../agent/events.js";
+import { PersistenceManager } from "../agent/persistence.js";
+import { ToolConfirmation } from "../tools/base.js";
+import { serializeConfirmation } from "./http_server.js";
+
+export const PROTOCOL_VERSION = 1;
+
+// Standard JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+type RpcId = string | number;
+
+interface RpcMessage {
+  jsonrpc: "2.0";
+  id?: RpcId | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+interface RpcSession {
+  agent: Agent;
+  controller: AbortController | null;
+}
+
+export type StopReason = "end_turn" | "cancelled" | "max_turns" | "error";
+
+const PERMISSION_OPTIONS = [
+  { optionId: "allow_once", name: "Allow", kind: "allow_once" },
+  { optionId: "reject_once", name: "Reject", kind: "reject_once" },
+];
+
+/**
+ * JSON-RPC 2.0 over stdio (one message per line) for editor embedding.
+ *
+ * Client -> agent requests:
+ *   initialize                         {protocolVersion}
+ *   session/new                        {cwd?} -> {sessionId}
+ *   session/load                       {sessionId} -> {sessionId}
+ *   session/prompt                     {sessionId, prompt} -> {stopReason, response}
+ *   session/cancel (notification)      {sessionId}
+ *
+ * Agent -> client:
+ *   session/update (notification)      {sessionId, update: AgentEvent}
+ *   session/request_permission         {sessionId, toolCall, options}
+ *     -> {outcome: {outcome: "selected", optionId} | {outcome: "cancelled"}}
+ *
+ * stdout carries protocol traffic only; diagnostics go to stderr.
+ */
+export class StdioRpcServer {
+  private sessions: Map<string, RpcSession> = new Map();
+  private pending: Map<RpcId, (message: RpcMessage) => void> = new Map();
+  private nextRequestId = 1;
+  private persistence: PersistenceManager;
+
+  constructor(
+    private config: Config,
+    private input: NodeJS.ReadableStream = process.stdin,
+    private output: NodeJS.WritableStream = process.stdout
+  ) {
+    this.persistence = PersistenceManager.fromConfig(config);
+  }
+
+  async serve(): Promise<void> {
+    const rl = createInterface({ input: this.input, terminal: false });
+
+    for await (const line of rl) {
+      if (!line.trim()) {
+        continue;
+      }
+      // Requests are handled concurrently so session/cancel and permission
+      // responses can arrive while a prompt is still running
+      this.handleLine(line).catch((error) => {
+        this.log(`Unhandled error: ${error?.message || String(error)}`);
+      });
+    }
+
+    await this.close();
+  }
+
+  async close(): Promise<void> {
+    for (const resolve of this.pending.values()) {
+      resolve({ jsonrpc: "2.0", error: { code: INTERNAL_ERROR, message: "Connection closed" } });
+    }
+    this.pending.clear();
+
+    for (const session of this.sessions.values()) {
+      session.controller?.abort();
+      await session.agent.close();
+    }
+    this.sessions.clear();
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let message: RpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.send({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+      return;
+    }
+
+    // Response to one of our own requests
+    if (message.method === undefined && message.id !== undefined && message.id !== null) {
+      const resolve = this.pending.get(message.id);
+      if (resolve) {
+        this.pending.delete(message.id);
+        resolve(message);
+      }
+      return;
+    }
+
+    if (typeof message.method !== "string") {
+      this.send({
+        jsonrpc: "2.0",
+        id: message.id ?? null,
+        error: { code: INVALID_REQUEST, message: "Invalid request" },
+      });
+      return;
+    }
+
+    const isNotification = message.id === undefined;
+
+    try {
+      const result = await this.dispatch(message.method, message.params || {});
+      if (!isNotification) {
+        this.send({ jsonrpc: "2.0", id: message.id, result: result ?? null });
+      }
+    } catch (error: any) {
+      if (isNotification) {
+        this.log(`${message.method} failed: ${error.message || String(error)}`);
+        return;
+      }
+      this.send({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: error instanceof RpcError ? error.code : INTERNAL_ERROR,
+          message: error.message || String(error),
+        },
+      });
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, any>): Promise<any> {
+    switch (method) {
+      case "initialize":
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          agentInfo: { name: "ai-agent", version: "1.0.0" },
+          agentCapabilities: { loadSession: true },
+        };
+      case "session/new":
+        return this.newSession(params.cwd);
+      case "session/load":
+        return this.loadSession(params.sessionId);
+      case "session/prompt":
+        return this.prompt(params.sessionId, params.prompt);
+      case "session/cancel":
+        this.getSession(params.sessionId).controller?.abort();
+        return null;
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  /** Config for a session in `cwd`, checked the way the CLI checks its own. */
+  private loadSessionConfig(cwd: string): Config {
+    let config: Config;
+    try {
+      config = loadConfig(cwd);
+    } catch (error: any) {
+      throw new RpcError(INVALID_PARAMS, `Invalid configuration for ${cwd}: ${error.message}`);
+    }
+
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      throw new RpcError(INVALID_PARAMS, `Invalid configuration for ${cwd}: ${errors.join("; ")}`);
+    }
+    return config;
+  }
+
+  private async createAgent(cwd?: string): Promise<RpcSession> {
+    // Resuming restores model and approval settings, which must stay per session
+    const config = cwd ? this.loadSessionConfig(cwd) : cloneConfig(this.config);
+    const session: RpcSession = { agent: null as unknown as Agent, controller: null };
+
+    session.agent = new Agent(config, (confirmation) =>
+      this.requestPermission(session, confirmation)
+    );
+    await session.agent.initialize();
+    return session;
+  }
+
+  private async newSession(cwd?: string): Promise<{ sessionId: string }> {
+    if (cwd !== undefined && typeof cwd !== "string") {
+      throw new RpcError(INVALID_PARAMS, "'cwd' must be a string");
+    }
+
+    const session = await this.createAgent(cwd);
+    const sessionId = session.agent.session!.sessionId;
+    this.sessions.set(sessionId, session);
+    return { sessionId };
+  }
+
+  private async loadSession(sessionId: string): Promise<{ sessionId: string }> {
+    if (typeof sessionId !== "string" || !/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      throw new RpcError(INVALID_PARAMS, "Invalid 'sessionId'");
+    }
+    if (this.sessions.has(sessionId)) {
+      return { sessionId };
+    }
+
+    const snapshot = this.persistence.loadSession(sessionId);
+    if (!snapshot) {
+      throw new RpcError(INVALID_PARAMS, `Session not found: ${sessionId}`);
+    }
+
+    // Tools and project config belong to the directory the session ran in
+    const session = await this.createAgent(snapshot.state.settings?.cwd);
+    try {
+      await session.agent.restoreSession(snapshot);
+    } catch (error) {
+      await session.agent.close();
+      throw error;
+    }
+    this.sessions.set(sessionId, session);
+    return { sessionId };
+  }
+
+  private getSession(sessionId: string): RpcSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new RpcError(INVALID_PARAMS, `Unknown session: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private async prompt(
+    sessionId: string,
+    prompt: string
+  ): Promise<{ stopReason: StopReason; response: string | null }> {
+    const session = this.getSession(sessionId);
+    if (typeof prompt !== "string" || !prompt.trim()) {
+      throw new RpcError(INVALID_PARAMS, "'prompt' must be a non-empty string");
+    }
+    if (session.controller) {
+      throw new RpcError(INVALID_REQUEST, "Session is already running a prompt");
+    }
+
+    const controller = new AbortController();
+    session.controller = controller;
+
+    let stopReason: StopReason = "end_turn";
+    let response: string | null = null;
+
+    try {
+      for await (const event of session.agent.run(prompt, controller.signal)) {
+        this.notify("session/update", { sessionId, update: event.toDict() });
+
+        if (event.type === AgentEventType.AGENT_END) {
+          response = event.data.response ?? null;
+        } else if (event.type === AgentEventType.AGENT_CANCELLED) {
+          stopReason = "cancelled";
+        } else if (event.type === AgentEventType.AGENT_ERROR) {
+          stopReason = event.data.details?.kind === "max_turns" ? "max_turns" : "error";
+        }
+      }
+    } finally {
+      session.controller = null;
+      if (session.agent.session) {
+        this.persistence.saveSession(session.agent.session.toSnapshot());
+      }
+    }
+
+    return { stopReason, response };
+  }
+
+  private async requestPermission(
+    session: RpcSession,
+    confirmation: ToolConfirmation
+  ): Promise<boolean> {
+    const sessionId = session.agent.session?.sessionId;
+    const id = this.nextRequestId++;
+    const signal = session.controller?.signal;
+    let onAbort = (): void => {};
+
+    const reply = await new Promise<RpcMessage>((resolve) => {
+      this.pending.set(id, resolve);
+      onAbort = () => {
+        if (this.pending.delete(id)) {
+          resolve({ jsonrpc: "2.0", result: { outcome: { outcome: "cancelled" } } });
+        }
+      };
+
+      // A cancelled prompt must not leave the tool waiting on the editor
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const toolCall = serializeConfirmation(String(id), confirmation);
+      this.send({
+        jsonrpc: "2.0",
+        id,
+        method: "session/request_permission",
+        params: { sessionId, toolCall, options: PERMISSION_OPTIONS },
+      });
+    });
+    signal?.removeEventListener("abort", onAbort);
+
+    if (reply.error) {
+      this.log(`Permission request failed: ${reply.error.message}`);
+      return false;
+    }
+
+    const outcome = reply.result?.outcome;
+    return outcome?.outcome === "selected" && outcome.optionId === "allow_once";
+  }
+
+  private notify(method: string, params: Record<string, any>): void {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private send(message: RpcMessage): void {
+    this.output.write(JSON.stringify(message) + "\n");
+  }
+
+  private log(message: string): void {
+    process.stderr.write(`[rpc] ${message}\n`);
+  }
+}
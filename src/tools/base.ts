@@ -80,6 +80,10 @@ export class ToolResult {
     return new ToolResult(false, output, error, metadata);
   }
 
+  static cancelledResult(): ToolResult {
+    return new ToolResult(false, "", "Cancelled by user", { cancelled: true });
+  }
+
   static successResult(
     output: string,
     metadata: Record<string, any> = {},
@@ -99,7 +103,8 @@ export class ToolResult {
 export class ToolInvocation {
   constructor(
     public params: Record<string, any>,
-    public cwd: string
+    public cwd: string,
+    public signal?: AbortSignal
   ) {}
 }
 
@@ -149,6 +154,26 @@ export abstract class Tool {
     ].includes(this.kind);
   }
 
+  /**
+   * Per-session state saved in session snapshots, or null for stateless
+   * tools. Must be JSON-serializable.
+   */
+  getState(): Record<string, any> | null {
+    return null;
+  }
+
+  setState(_state: Record<string, any>): void {
+    // Stateless by default
+  }
+
+  /**
+   * Working state worth keeping in view when the context is compacted
+   * (open todos, the current plan), as markdown; null when there is none.
+   */
+  describeState(): string | null {
+    return null;
+  }
+
   async getConfirmation(
     invocation: ToolInvocation
   ): Promise<ToolConfirmation | null> {
@@ -166,29 +191,11 @@ export abstract class Tool {
   toOpenAISchema(): Record<string, any> {
     const schema = this.schema;
 
-    if (schema instanceof z.ZodSchema) {
-      const jsonSchema = (schema as any)._def.schema || schema;
-      const shape = jsonSchema._def?.shape() || {};
-
-      const properties: Record<string, any> = {};
-      const required: string[] = [];
-
-      for (const [key, value] of Object.entries(shape)) {
-        const zodType = (value as any)._def;
-        properties[key] = zodTypeToJsonSchema(zodType);
-        if (zodType.typeName !== "ZodOptional") {
-          required.push(key);
-        }
-      }
-
+    if (schema instanceof z.ZodType) {
       return {
         name: this.name,
         description: this.description,
-        parameters: {
-          type: "object",
-          properties,
-          required,
-        },
+        parameters: zodTypeToJsonSchema(schema),
       };
     }
 
@@ -213,29 +220,185 @@ export abstract class Tool {
   abstract execute(invocation: ToolInvocation): Promise<ToolResult>;
 }
 
-function zodTypeToJsonSchema(zodType: any): any {
-  if (zodType.typeName === "ZodString") {
-    return { type: "string" };
+const STRING_FORMATS: Record<string, string> = {
+  email: "email",
+  url: "uri",
+  uuid: "uuid",
+  datetime: "date-time",
+};
+
+function stringSchema(zodType: z.ZodString): Record<string, any> {
+  const schema: Record<string, any> = { type: "string" };
+  for (const check of zodType._def.checks) {
+    if (check.kind === "min") {
+      schema.minLength = check.value;
+    } else if (check.kind === "max") {
+      schema.maxLength = check.value;
+    } else if (check.kind === "length") {
+      schema.minLength = schema.maxLength = check.value;
+    } else if (check.kind === "regex") {
+      schema.pattern = check.regex.source;
+    } else if (check.kind in STRING_FORMATS) {
+      schema.format = STRING_FORMATS[check.kind];
+    }
+  }
+  return schema;
+}
+
+function numberSchema(zodType: z.ZodNumber): Record<string, any> {
+  const schema: Record<string, any> = { type: zodType.isInt ? "integer" : "number" };
+  for (const check of zodType._def.checks) {
+    if (check.kind === "min") {
+      schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    } else if (check.kind === "multipleOf") {
+      schema.multipleOf = check.value;
+    }
+  }
+  return schema;
+}
+
+function arraySchema(zodType: z.ZodArray<z.ZodTypeAny>): Record<string, any> {
+  const schema: Record<string, any> = {
+    type: "array",
+    items: zodTypeToJsonSchema(zodType.element),
+  };
+  const { minLength, maxLength, exactLength } = zodType._def;
+  if (exactLength) {
+    schema.minItems = schema.maxItems = exactLength.value;
+  }
+  if (minLength) {
+    schema.minItems = minLength.value;
+  }
+  if (maxLength) {
+    schema.maxItems = maxLength.value;
+  }
+  return schema;
+}
+
+function objectSchema(zodType: z.ZodObject<z.ZodRawShape>): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(zodType.shape)) {
+    properties[key] = zodTypeToJsonSchema(value);
+    // Optional and defaulted fields both accept a missing value
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const schema: Record<string, any> = { type: "object", properties, required };
+  if (zodType._def.unknownKeys === "strict") {
+    schema.additionalProperties = false;
+  }
+  return schema;
+}
+
+/** Values of a TypeScript enum, without the reverse mappings of numeric members. */
+function nativeEnumValues(values: Record<string, string | number>): Array<string | number> {
+  return Object.values(values).filter(
+    (value) => typeof value === "number" || typeof values[value] !== "number"
+  );
+}
+
+function enumSchema(values: unknown[]): Record<string, any> {
+  const types = new Set(values.map((value) => (value === null ? "null" : typeof value)));
+  if (types.size === 1) {
+    return { type: types.values().next().value, enum: values };
+  }
+  return { enum: values };
+}
+
+function unionSchema(options: readonly z.ZodTypeAny[]): Record<string, any> {
+  const schemas = options.map(zodTypeToJsonSchema);
+
+  // A union of literals reads better as a single enum
+  const onlyEnums = schemas.every(
+    (schema) =>
+      schema.enum && Object.keys(schema).every((key) => key === "enum" || key === "type")
+  );
+  if (onlyEnums) {
+    return enumSchema(schemas.flatMap((schema) => schema.enum));
+  }
+  return { anyOf: schemas };
+}
+
+function withNull(schema: Record<string, any>): Record<string, any> {
+  if (schema.enum) {
+    return enumSchema([...schema.enum, null]);
+  }
+  if (typeof schema.type === "string") {
+    return { ...schema, type: [schema.type, "null"] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function convertZodType(zodType: z.ZodTypeAny): Record<string, any> {
+  if (zodType instanceof z.ZodOptional) {
+    return zodTypeToJsonSchema(zodType.unwrap());
   }
-  if (zodType.typeName === "ZodNumber") {
-    return { type: "number" };
+  if (zodType instanceof z.ZodNullable) {
+    return withNull(zodTypeToJsonSchema(zodType.unwrap()));
   }
-  if (zodType.typeName === "ZodBoolean") {
+  if (zodType instanceof z.ZodDefault) {
+    return { ...zodTypeToJsonSchema(zodType._def.innerType), default: zodType._def.defaultValue() };
+  }
+  if (zodType instanceof z.ZodEffects) {
+    return zodTypeToJsonSchema(zodType.innerType());
+  }
+  if (zodType instanceof z.ZodString) {
+    return stringSchema(zodType);
+  }
+  if (zodType instanceof z.ZodNumber) {
+    return numberSchema(zodType);
+  }
+  if (zodType instanceof z.ZodBoolean) {
     return { type: "boolean" };
   }
-  if (zodType.typeName === "ZodArray") {
+  if (zodType instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+  if (zodType instanceof z.ZodLiteral) {
+    return enumSchema([zodType.value]);
+  }
+  if (zodType instanceof z.ZodEnum) {
+    return enumSchema(zodType.options);
+  }
+  if (zodType instanceof z.ZodNativeEnum) {
+    return enumSchema(nativeEnumValues(zodType.enum));
+  }
+  if (zodType instanceof z.ZodArray) {
+    return arraySchema(zodType);
+  }
+  if (zodType instanceof z.ZodObject) {
+    return objectSchema(zodType);
+  }
+  if (zodType instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodTypeToJsonSchema(zodType.valueSchema) };
+  }
+  if (zodType instanceof z.ZodUnion || zodType instanceof z.ZodDiscriminatedUnion) {
+    return unionSchema(zodType.options);
+  }
+  if (zodType instanceof z.ZodIntersection) {
     return {
-      type: "array",
-      items: zodTypeToJsonSchema(zodType._def.type),
+      allOf: [zodTypeToJsonSchema(zodType._def.left), zodTypeToJsonSchema(zodType._def.right)],
     };
   }
-  if (zodType.typeName === "ZodObject") {
-    const shape = zodType._def.shape();
-    const properties: Record<string, any> = {};
-    for (const [key, value] of Object.entries(shape)) {
-      properties[key] = zodTypeToJsonSchema((value as any)._def);
-    }
-    return { type: "object", properties };
+  // z.any(), z.unknown() and types without a JSON form accept any value
+  return {};
+}
+
+/**
+ * JSON Schema for a tool parameter schema, with the descriptions, enums,
+ * defaults and bounds the model needs to produce valid arguments.
+ */
+function zodTypeToJsonSchema(zodType: z.ZodTypeAny): Record<string, any> {
+  const schema = convertZodType(zodType);
+  // Wrappers copy the description, so the outermost one is the latest
+  if (zodType.description) {
+    schema.description = zodType.description;
   }
-  return { type: "string" };
+  return schema;
 }
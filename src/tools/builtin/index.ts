@@ -10,6 +10,7 @@ export { WebFetchTool } from "./web_fetch.js";
 export { TodosTool } from "./todo.js";
 export { MemoryTool } from "./memory.js";
 export { PlanTool } from "./plan.js";
+export { RecallOutputTool, RECALL_TOOL_NAME } from "./recall_output.js";
 
 import { ReadFileTool } from "./read_file.js";
 import { WriteFileTool } from "./write_file.js";
@@ -1,8 +1,10 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
 import { z } from "zod";
 import { Tool, ToolInvocation, ToolKind, ToolResult } from "../base.js";
 import { getDataDir } from "../../config/loader.js";
+import { StorageCipher, readStoredFile, writeStoredFile } from "../../utils/encryption.js";
+import { ConfigError } from "../../utils/errors.js";
 
 const MemoryParamsSchema = z.object({
   action: z.enum(["set", "get", "delete", "list", "clear"]).describe("Action: 'set', 'get', 'delete', 'list', 'clear'"),
@@ -28,9 +30,13 @@ export class MemoryTool extends Tool {
         return { entries: {} };
       }
 
-      const content = readFileSync(path, "utf-8");
-      return JSON.parse(content);
-    } catch {
+      const cipher = StorageCipher.fromConfig(this.config.encryption);
+      return JSON.parse(readStoredFile(path, cipher).toString("utf-8"));
+    } catch (error) {
+      // Never fall back to empty memory that the next save would write over
+      if (error instanceof ConfigError) {
+        throw error;
+      }
       return { entries: {} };
     }
   }
@@ -43,7 +49,8 @@ export class MemoryTool extends Tool {
       }
       const path = join(dataDir, "user_memory.json");
 
-      writeFileSync(path, JSON.stringify(memory, null, 2), "utf-8");
+      const cipher = StorageCipher.fromConfig(this.config.encryption);
+      writeStoredFile(path, JSON.stringify(memory, null, 2), cipher);
     } catch (error) {
       // Ignore save errors
     }
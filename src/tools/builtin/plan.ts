@@ -223,6 +223,34 @@ export class PlanTool extends Tool {
     }
   }
 
+  getState(): Record<string, any> | null {
+    if (!this.currentPlan) {
+      return { plan: null };
+    }
+    return {
+      plan: {
+        ...this.currentPlan,
+        createdAt: this.currentPlan.createdAt.toISOString(),
+        updatedAt: this.currentPlan.updatedAt.toISOString(),
+      },
+    };
+  }
+
+  setState(state: Record<string, any>): void {
+    const plan = state.plan;
+    this.currentPlan = plan
+      ? {
+          ...plan,
+          createdAt: new Date(plan.createdAt),
+          updatedAt: new Date(plan.updatedAt),
+        }
+      : null;
+  }
+
+  describeState(): string | null {
+    return this.currentPlan ? this.formatPlan(this.currentPlan) : null;
+  }
+
   private parsePlanSteps(planContent: string): PlanStep[] {
     const steps: PlanStep[] = [];
     const lines = planContent.split("\n");
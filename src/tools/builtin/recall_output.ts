@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { Tool, ToolInvocation, ToolKind, ToolResult } from "../base.js";
+import { Config } from "../../config/config.js";
+
+export const RECALL_TOOL_NAME = "recall_output";
+
+// Oldest outputs are dropped first once the store holds more than this.
+// The store is saved with the session on every autosave, so keep it small.
+const MAX_STORED_CHARS = 200_000;
+
+const RecallOutputParamsSchema = z.object({
+  id: z.string().describe("Tool call id named in the digest"),
+});
+
+/**
+ * Keeps the full text of tool outputs that were replaced by digests in the
+ * context, and gives it back on request. The outputs are saved with the
+ * session as this tool's state.
+ */
+export class RecallOutputTool extends Tool {
+  name = RECALL_TOOL_NAME;
+  description =
+    "Get back the full output of an earlier tool call that was replaced by a digest " +
+    "to save context. Prefer this over running the call again when the digest says " +
+    "the output can be recalled and the underlying data has not changed since.";
+  kind = ToolKind.READ;
+  schema = RecallOutputParamsSchema;
+  private outputs: Map<string, string> = new Map();
+
+  constructor(config: Config) {
+    super(config);
+  }
+
+  /** Keep `output`; returns the ids of older outputs dropped to make room. */
+  store(toolCallId: string, output: string): string[] {
+    // A digest pruned again must not replace the original
+    if (this.outputs.has(toolCallId)) {
+      return [];
+    }
+    this.outputs.set(toolCallId, output);
+
+    const evicted: string[] = [];
+    let total = 0;
+    for (const stored of this.outputs.values()) {
+      total += stored.length;
+    }
+    for (const [id, stored] of this.outputs) {
+      if (total <= MAX_STORED_CHARS || id === toolCallId) {
+        break;
+      }
+      this.outputs.delete(id);
+      evicted.push(id);
+      total -= stored.length;
+    }
+    return evicted;
+  }
+
+  async execute(invocation: ToolInvocation): Promise<ToolResult> {
+    const params = RecallOutputParamsSchema.parse(invocation.params);
+    const output = this.outputs.get(params.id);
+
+    if (output === undefined) {
+      return ToolResult.errorResult(
+        `No stored output for tool call ${params.id}. Run the call again instead.`
+      );
+    }
+    return ToolResult.successResult(output, { tool_call_id: params.id });
+  }
+
+  getState(): Record<string, any> | null {
+    if (this.outputs.size === 0) {
+      return null;
+    }
+    return { outputs: Object.fromEntries(this.outputs) };
+  }
+
+  setState(state: Record<string, any>): void {
+    this.outputs = new Map(Object.entries(state.outputs || {}));
+  }
+}
@@ -105,6 +105,8 @@ export class ShellTool extends Tool {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), params.timeout * 1000);
+      const onCancel = (): void => controller.abort();
+      invocation.signal?.addEventListener("abort", onCancel, { once: true });
 
       try {
         const { stdout, stderr } = await execAsync(params.command, {
@@ -115,6 +117,7 @@ export class ShellTool extends Tool {
         });
 
         clearTimeout(timeoutId);
+        invocation.signal?.removeEventListener("abort", onCancel);
 
         let output = "";
         if (stdout?.trim()) {
@@ -136,6 +139,15 @@ export class ShellTool extends Tool {
         });
       } catch (error: any) {
         clearTimeout(timeoutId);
+        invocation.signal?.removeEventListener("abort", onCancel);
+
+        if (invocation.signal?.aborted) {
+          return ToolResult.errorResult(
+            "Command cancelled by user",
+            error.stdout || "",
+            { cancelled: true }
+          );
+        }
 
         if (error.signal === "SIGABRT") {
           return ToolResult.errorResult(
@@ -157,7 +169,7 @@ export class ShellTool extends Tool {
         }
 
         return ToolResult.errorResult(
-          stderr || "Command failed",
+          `Command exited with code ${exitCode}`,
           output,
           { exit_code: exitCode }
         );
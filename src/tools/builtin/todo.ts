@@ -59,6 +59,32 @@ export class TodosTool extends Tool {
     }
   }
 
+  getState(): Record<string, any> | null {
+    return {
+      todos: Array.from(this.todos.entries()).map(([id, content]) => ({ id, content })),
+    };
+  }
+
+  setState(state: Record<string, any>): void {
+    this.todos = new Map(
+      (state.todos || []).map((todo: { id: string; content: string }) => [
+        todo.id,
+        todo.content,
+      ])
+    );
+  }
+
+  describeState(): string | null {
+    if (this.todos.size === 0) {
+      return null;
+    }
+    const lines = ["Open todos:"];
+    for (const [todoId, content] of this.todos.entries()) {
+      lines.push(`- [${todoId}] ${content}`);
+    }
+    return lines.join("\n");
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substring(2, 10);
   }
@@ -23,6 +23,8 @@ export class WebFetchTool extends Tool {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), params.timeout * 1000);
+      const onCancel = (): void => controller.abort();
+      invocation.signal?.addEventListener("abort", onCancel, { once: true });
 
       const response = await fetch(params.url, {
         signal: controller.signal,
@@ -33,6 +35,7 @@ export class WebFetchTool extends Tool {
       });
 
       clearTimeout(timeoutId);
+      invocation.signal?.removeEventListener("abort", onCancel);
 
       if (!response.ok) {
         return ToolResult.errorResult(
@@ -52,6 +55,11 @@ export class WebFetchTool extends Tool {
         content_length: text.length,
       });
     } catch (error: any) {
+      if (invocation.signal?.aborted) {
+        return ToolResult.errorResult("Request cancelled by user", "", {
+          cancelled: true,
+        });
+      }
       if (error.name === "AbortError") {
         return ToolResult.errorResult(
           `Request timed out after ${params.timeout}s`
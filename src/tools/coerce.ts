@@ -0,0 +1,124 @@
+import { z } from "zod";
+
+export interface CoercedParams {
+  params: Record<string, any>;
+  // What was changed, e.g. `offset: "10" -> 10`
+  repairs: string[];
+}
+
+const NUMERIC = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+/** Looks through wrappers that do not change what a value must look like. */
+function unwrap(type: z.ZodTypeAny): z.ZodTypeAny {
+  if (type instanceof z.ZodOptional || type instanceof z.ZodNullable) {
+    return unwrap(type.unwrap());
+  }
+  if (type instanceof z.ZodDefault) {
+    return unwrap(type._def.innerType);
+  }
+  if (type instanceof z.ZodEffects) {
+    return unwrap(type.innerType());
+  }
+  return type;
+}
+
+/** `old_string`, `oldString` and `old-string` all become `oldstring`. */
+function keyForm(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, "");
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** `value` converted to what `type` expects, or `value` itself if there is no obvious way. */
+function coerceValue(type: z.ZodTypeAny, value: unknown, path: string, repairs: string[]): unknown {
+  const target = unwrap(type);
+  let result: unknown = value;
+
+  if (target instanceof z.ZodNumber && typeof value === "string" && NUMERIC.test(value.trim())) {
+    result = Number(value.trim());
+  } else if (target instanceof z.ZodBoolean && typeof value === "string") {
+    const lower = value.trim().toLowerCase();
+    result = lower === "true" ? true : lower === "false" ? false : value;
+  } else if (
+    target instanceof z.ZodString &&
+    (typeof value === "number" || typeof value === "boolean")
+  ) {
+    result = String(value);
+  } else if (target instanceof z.ZodEnum && typeof value === "string") {
+    const options: string[] = target.options;
+    result = options.find((option) => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+  } else if (target instanceof z.ZodArray) {
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else {
+      const parsed = typeof value === "string" ? parseJson(value) : undefined;
+      items = Array.isArray(parsed) ? parsed : [value];
+      repairs.push(`${path}: ${Array.isArray(parsed) ? "parsed from a string" : "wrapped in a list"}`);
+    }
+    return items.map((item, i) => coerceValue(target.element, item, `${path}[${i}]`, repairs));
+  } else if (target instanceof z.ZodObject) {
+    const parsed = typeof value === "string" ? parseJson(value) : value;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      const nested = coerceParams(target, parsed as Record<string, any>, `${path}.`);
+      repairs.push(...nested.repairs);
+      return nested.params;
+    }
+  }
+
+  if (result !== value) {
+    repairs.push(`${path}: ${JSON.stringify(value)} -> ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+/**
+ * Fix obvious mismatches between tool arguments and the tool's Zod schema
+ * before validation: keys in another case style, numbers and booleans sent
+ * as strings (or the reverse), enum values in the wrong case, single values
+ * for lists, and null for optional arguments. Values that cannot be fixed
+ * are left for validation to report.
+ */
+export function coerceParams(
+  schema: unknown,
+  params: Record<string, any>,
+  prefix: string = ""
+): CoercedParams {
+  const target = schema instanceof z.ZodType ? unwrap(schema) : null;
+  if (!(target instanceof z.ZodObject)) {
+    return { params, repairs: [] };
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = target.shape;
+  const byForm = new Map(Object.keys(shape).map((key) => [keyForm(key), key]));
+  const repairs: string[] = [];
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    let name = key;
+    if (!(key in shape)) {
+      const match = byForm.get(keyForm(key));
+      if (match && !(match in params)) {
+        repairs.push(`${prefix}${key}: renamed to ${match}`);
+        name = match;
+      }
+    }
+
+    const type = shape[name];
+    if (!type) {
+      result[name] = value;
+    } else if (value === null && type.isOptional() && !type.isNullable()) {
+      repairs.push(`${prefix}${name}: null dropped`);
+    } else {
+      result[name] = coerceValue(type, value, `${prefix}${name}`, repairs);
+    }
+  }
+
+  return { params: result, repairs };
+}
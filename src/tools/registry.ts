@@ -1,9 +1,30 @@
 import { Config } from "../config/config.js";
-import { Tool, ToolInvocation, ToolResult } from "./base.js";
-import { getAllBuiltinTools } from "./builtin/index.js";
+import { Tool, ToolInvocation, ToolKind, ToolResult } from "./base.js";
+import { getAllBuiltinTools, RecallOutputTool } from "./builtin/index.js";
 import { ApprovalManager, ApprovalContext, ApprovalDecision } from "../safety/approval.js";
 import { HookSystem } from "../hooks/hook_system.js";
 import { getDefaultSubagentDefinitions, SubagentTool } from "./subagents.js";
+import { coerceParams } from "./coerce.js";
+import { RAW_ARGUMENTS_KEY, jsonRepairsOf } from "../client/response.js";
+import { repairJson } from "../utils/json_repair.js";
+
+/**
+ * Error for arguments the tool cannot use, with the schema they must match
+ * so the model can correct the call on its next turn.
+ */
+function invalidArgumentsResult(tool: Tool, problems: string[]): ToolResult {
+  const schema = tool.toOpenAISchema().parameters;
+  const output =
+    `Problems:\n${problems.map((problem) => `- ${problem}`).join("\n")}\n\n` +
+    `Expected arguments (JSON schema):\n${JSON.stringify(schema, null, 2)}\n\n` +
+    `Call ${tool.name} again with a JSON object that matches this schema.`;
+
+  return ToolResult.errorResult(`Invalid arguments for ${tool.name}`, output, {
+    tool_name: tool.name,
+    validation_errors: problems,
+    expected_schema: schema,
+  });
+}
 
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
@@ -68,10 +89,15 @@ export class ToolRegistry {
     return null;
   }
 
+  /**
+   * Sorted by name, so the schemas sent with each request (a prefix that
+   * providers cache) do not depend on registration or discovery order.
+   */
   getTools(): Tool[] {
     const tools: Tool[] = [];
     tools.push(...this.tools.values());
     tools.push(...this.mcpTools.values());
+    tools.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
 
     if (this.config.allowedTools) {
       const allowedSet = new Set(this.config.allowedTools);
@@ -89,13 +115,30 @@ export class ToolRegistry {
     return this.getTools().map((tool) => tool.toOpenAISchema());
   }
 
+  /**
+   * Read-only calls have no side effects and never prompt for approval,
+   * so they can safely run concurrently with each other.
+   */
+  isParallelSafe(name: string, params: Record<string, any>): boolean {
+    const tool = this.get(name);
+    if (!tool) {
+      return false;
+    }
+    return tool.kind === ToolKind.READ && !tool.isMutating(params);
+  }
+
   async invoke(
     name: string,
     params: Record<string, any>,
     cwd: string,
     hookSystem: HookSystem,
-    approvalManager?: ApprovalManager | null
+    approvalManager?: ApprovalManager | null,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
+    if (signal?.aborted) {
+      return ToolResult.cancelledResult();
+    }
+
     const tool = this.get(name);
     if (!tool) {
       const result = ToolResult.errorResult(
@@ -107,22 +150,32 @@ export class ToolRegistry {
       return result;
     }
 
+    const rawArguments = params[RAW_ARGUMENTS_KEY];
+    if (typeof rawArguments === "string" && Object.keys(params).length === 1) {
+      const result = invalidArgumentsResult(tool, [
+        repairJson(rawArguments).truncated
+          ? `Arguments were cut off before the end; nothing was run. Send the complete call again: ` +
+            `...${rawArguments.slice(-200)}`
+          : `Arguments are not valid JSON, even after repair: ${rawArguments.slice(0, 200)}`,
+      ]);
+      await hookSystem.triggerAfterTool(name, params, result);
+      return result;
+    }
+
+    // Fix what is obviously meant (e.g. "10" for 10) rather than fail the call
+    const { params: coerced, repairs: coerceRepairs } = coerceParams(tool.schema, params);
+    const repairs = [...jsonRepairsOf(params), ...coerceRepairs];
+    params = coerced;
+
     const validationErrors = tool.validateParams(params);
     if (validationErrors.length > 0) {
-      const result = ToolResult.errorResult(
-        `Invalid parameters: ${validationErrors.join("; ")}`,
-        "",
-        {
-          tool_name: name,
-          validation_errors: validationErrors,
-        }
-      );
+      const result = invalidArgumentsResult(tool, validationErrors);
       await hookSystem.triggerAfterTool(name, params, result);
       return result;
     }
 
     await hookSystem.triggerBeforeTool(name, params);
-    const invocation = new ToolInvocation(params, cwd);
+    const invocation = new ToolInvocation(params, cwd, signal);
 
     if (approvalManager) {
       const confirmation = await tool.getConfirmation(invocation);
@@ -139,7 +192,9 @@ export class ToolRegistry {
         const decision = await approvalManager.checkApproval(context);
         if (decision === ApprovalDecision.REJECTED) {
           const result = ToolResult.errorResult(
-            "Operation rejected by safety policy"
+            "Operation rejected by safety policy",
+            "",
+            { rejected: true }
           );
           await hookSystem.triggerAfterTool(name, params, result);
           return result;
@@ -147,7 +202,11 @@ export class ToolRegistry {
           const approved = await approvalManager.requestConfirmation(confirmation);
 
           if (!approved) {
-            const result = ToolResult.errorResult("User rejected the operation");
+            const result = ToolResult.errorResult(
+              "User rejected the operation",
+              "",
+              { rejected: true }
+            );
             await hookSystem.triggerAfterTool(name, params, result);
             return result;
           }
@@ -155,8 +214,17 @@ export class ToolRegistry {
       }
     }
 
+    if (signal?.aborted) {
+      const result = ToolResult.cancelledResult();
+      await hookSystem.triggerAfterTool(name, params, result);
+      return result;
+    }
+
     try {
       const result = await tool.execute(invocation);
+      if (repairs.length > 0) {
+        result.metadata = { ...result.metadata, argument_repairs: repairs };
+      }
       await hookSystem.triggerAfterTool(name, params, result);
       return result;
     } catch (error: any) {
@@ -179,6 +247,11 @@ export function createDefaultRegistry(config: Config): ToolRegistry {
     registry.register(new ToolClass(config));
   }
 
+  // Only digests point the model at stored outputs
+  if (config.compaction.pruneStrategy === "digest") {
+    registry.register(new RecallOutputTool(config));
+  }
+
   // Add default subagent tools
   for (const subagentDef of getDefaultSubagentDefinitions()) {
     registry.register(new SubagentTool(config, subagentDef));
@@ -194,6 +267,7 @@ export function createDefaultRegistry(config: Config): ToolRegistry {
         allowedTools: subagentConfig.allowedTools,
         maxTurns: subagentConfig.maxTurns,
         timeoutSeconds: subagentConfig.timeoutSeconds,
+        profile: subagentConfig.profile,
       };
       registry.register(new SubagentTool(config, subagentDef));
     }
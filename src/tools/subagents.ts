@@ -15,6 +15,7 @@ export interface SubagentDefinition {
   allowedTools?: string[];
   maxTurns?: number;
   timeoutSeconds?: number;
+  profile?: string;
 }
 
 export class SubagentTool extends Tool {
@@ -54,10 +55,21 @@ export class SubagentTool extends Tool {
     const configData: any = {
       ...this.config,
       maxTurns: this.definition.maxTurns || 20,
+      // The parent session saves and snapshots files on the subagent's behalf
+      autosave: false,
+      fileCheckpoints: false,
     };
     if (this.definition.allowedTools) {
       configData.allowedTools = this.definition.allowedTools;
     }
+    // The subagent's own loop is its "main" role
+    configData.routing = {
+      ...this.config.routing,
+      main:
+        this.definition.profile ||
+        this.config.routing.subagent ||
+        this.config.routing.main,
+    };
     const subagentConfig = createConfig(configData);
 
     const prompt = `You are a specialized sub-agent with a specific task to complete.
@@ -78,6 +90,7 @@ IMPORTANT:
     let finalResponse: string | null = null;
     let error: string | null = null;
     let terminateResponse = "goal";
+    let cost = 0;
 
     try {
       const agent = new Agent(subagentConfig);
@@ -86,7 +99,7 @@ IMPORTANT:
       const deadline = Date.now() + (this.definition.timeoutSeconds || 600) * 1000;
 
       try {
-        for await (const event of agent.run(prompt)) {
+        for await (const event of agent.run(prompt, invocation.signal)) {
           if (Date.now() > deadline) {
             terminateResponse = "timeout";
             finalResponse = "Sub-agent timed out";
@@ -101,6 +114,11 @@ IMPORTANT:
             if (finalResponse === null) {
               finalResponse = event.data.response || null;
             }
+          } else if (event.type === AgentEventType.AGENT_CANCELLED) {
+            terminateResponse = "cancelled";
+            error = event.data.reason || "Cancelled";
+            finalResponse = "Sub-agent cancelled";
+            break;
           } else if (event.type === AgentEventType.AGENT_ERROR) {
             terminateResponse = "error";
             error = event.data.error || "Unknown";
@@ -109,6 +127,7 @@ IMPORTANT:
           }
         }
       } finally {
+        cost = agent.session?.costTracker.sessionCost ?? 0;
         await agent.close();
       }
     } catch (e) {
@@ -125,11 +144,13 @@ Result:
 ${finalResponse || "No response"}
 `;
 
+    // The parent adds this to its own session cost and budgets
+    const metadata = { subagent_cost: cost };
     if (error) {
-      return ToolResult.errorResult(result);
+      return ToolResult.errorResult(result, "", metadata);
     }
 
-    return ToolResult.successResult(result);
+    return ToolResult.successResult(result, metadata);
   }
 }
 
@@ -0,0 +1,314 @@
+import { SessionSnapshot } from "../agent/persistence.js";
+import { formatCost } from "../client/pricing.js";
+import { redactSecrets } from "../utils/redact.js";
+
+export type ExportFormat = "markdown" | "html" | "json";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["markdown", "html", "json"];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  html: "html",
+  json: "json",
+};
+
+export interface ExportOptions {
+  // Replace credentials with a marker
+  redact?: boolean;
+  // Exact values to redact in addition to the built-in patterns
+  knownSecrets?: string[];
+  // Tool outputs longer than this many characters are left out
+  maxToolOutput?: number | null;
+}
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any> | string;
+  output: string | null;
+  // Length of an output left out by maxToolOutput
+  omitted_chars: number | null;
+  diff: string | null;
+}
+
+export type TranscriptMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls: TranscriptToolCall[] };
+
+/** Provider-independent form of a session, also used as the JSON export. */
+export interface Transcript {
+  format_version: 1;
+  session_id: string;
+  created_at: string;
+  updated_at: string;
+  model: string | null;
+  cwd: string | null;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cached_tokens: number;
+    cache_write_tokens: number;
+  };
+  cost_usd: number;
+  messages: TranscriptMessage[];
+}
+
+function parseArguments(raw: string | undefined): Record<string, any> | string {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : raw || "";
+  } catch {
+    return raw || "";
+  }
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === "string") {
+    return fn(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn)) as T;
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = mapStrings(item, fn);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+export function buildTranscript(
+  snapshot: SessionSnapshot,
+  options: ExportOptions = {}
+): Transcript {
+  const messages: TranscriptMessage[] = [];
+  const callsById = new Map<string, TranscriptToolCall>();
+  const maxOutput = options.maxToolOutput ?? null;
+
+  for (const msg of snapshot.messages) {
+    if (msg.role === "user") {
+      messages.push({ role: "user", content: msg.content || "" });
+    } else if (msg.role === "assistant") {
+      const toolCalls: TranscriptToolCall[] = (msg.tool_calls || []).map(
+        (call: Record<string, any>) => ({
+          id: call.id,
+          name: call.function?.name || "unknown",
+          arguments: parseArguments(call.function?.arguments),
+          output: null,
+          omitted_chars: null,
+          diff: snapshot.state.fileDiffs[call.id] ?? null,
+        })
+      );
+      for (const call of toolCalls) {
+        callsById.set(call.id, call);
+      }
+      messages.push({ role: "assistant", content: msg.content || null, tool_calls: toolCalls });
+    } else if (msg.role === "tool") {
+      const call = callsById.get(msg.tool_call_id);
+      if (!call) {
+        continue;
+      }
+      const output: string = msg.content || "";
+      if (maxOutput !== null && output.length > maxOutput) {
+        call.omitted_chars = output.length;
+      } else {
+        call.output = output;
+      }
+    }
+  }
+
+  const usage = snapshot.totalUsage;
+  const transcript: Transcript = {
+    format_version: 1,
+    session_id: snapshot.sessionId,
+    created_at: snapshot.createdAt.toISOString(),
+    updated_at: snapshot.updatedAt.toISOString(),
+    model: snapshot.state.settings?.modelName ?? null,
+    cwd: snapshot.state.settings?.cwd ?? null,
+    usage: {
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      total_tokens: usage.totalTokens,
+      cached_tokens: usage.cachedTokens,
+      cache_write_tokens: usage.cacheWriteTokens,
+    },
+    cost_usd: snapshot.totalCost,
+    messages,
+  };
+
+  return options.redact
+    ? mapStrings(transcript, (text) => redactSecrets(text, options.knownSecrets))
+    : transcript;
+}
+
+/** A fence longer than any backtick run in `text`, so it cannot close early. */
+function fence(text: string, lang: string = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${lang}\n${text.replace(/\n$/, "")}\n${marker}`;
+}
+
+function formatArguments(args: Record<string, any> | string): string {
+  return typeof args === "string" ? args : JSON.stringify(args, null, 2);
+}
+
+function summaryLines(transcript: Transcript): string[] {
+  const usage = transcript.usage;
+  return [
+    `Created: ${transcript.created_at}`,
+    `Updated: ${transcript.updated_at}`,
+    ...(transcript.model ? [`Model: ${transcript.model}`] : []),
+    ...(transcript.cwd ? [`Working directory: ${transcript.cwd}`] : []),
+    `Tokens: ${usage.total_tokens} (${usage.prompt_tokens} prompt, ` +
+      `${usage.completion_tokens} completion, ${usage.cached_tokens} cached)`,
+    `Cost: ${formatCost(transcript.cost_usd)}`,
+  ];
+}
+
+export function renderMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# Session ${transcript.session_id}`, ""];
+  for (const line of summaryLines(transcript)) {
+    lines.push(`- ${line}`);
+  }
+
+  for (const msg of transcript.messages) {
+    lines.push("");
+    if (msg.role === "user") {
+      lines.push("## User", "", msg.content);
+      continue;
+    }
+
+    lines.push("## Assistant");
+    if (msg.content) {
+      lines.push("", msg.content);
+    }
+    for (const call of msg.tool_calls) {
+      lines.push("", `### Tool: \`${call.name}\``, "", fence(formatArguments(call.arguments), "json"));
+      if (call.diff) {
+        lines.push("", fence(call.diff, "diff"));
+      }
+      if (call.omitted_chars !== null) {
+        lines.push("", `_Output omitted (${call.omitted_chars} characters)_`);
+      } else if (call.output !== null) {
+        lines.push("", "<details><summary>Output</summary>", "", fence(call.output), "", "</details>");
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderDiffHtml(diff: string): string {
+  const lines = diff.replace(/\n$/, "").split("\n").map((line) => {
+    const kind = line.startsWith("+++") || line.startsWith("---")
+      ? "meta"
+      : line.startsWith("+")
+        ? "add"
+        : line.startsWith("-")
+          ? "del"
+          : "ctx";
+    return `<span class="${kind}">${escapeHtml(line)}</span>`;
+  });
+  return `<pre class="diff">${lines.join("\n")}</pre>`;
+}
+
+const HTML_STYLE = `
+body { font: 15px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.4em; word-break: break-all; }
+.summary { color: #57606a; font-size: 0.9em; padding-left: 1.2em; }
+.msg { border: 1px solid #d0d7de; border-radius: 6px; margin: 1em 0; padding: 0.6em 1em; }
+.msg.user { background: #f6f8fa; }
+.role { font-weight: 600; font-size: 0.85em; text-transform: uppercase; color: #57606a; }
+.text { white-space: pre-wrap; }
+details { margin: 0.5em 0; border-left: 3px solid #d0d7de; padding-left: 0.8em; }
+summary { cursor: pointer; font-family: ui-monospace, Menlo, monospace; }
+pre { background: #f6f8fa; padding: 0.6em; overflow-x: auto; font-size: 0.85em; }
+.diff .add { color: #116329; background: #dafbe1; display: block; }
+.diff .del { color: #82071e; background: #ffebe9; display: block; }
+.diff .meta { color: #57606a; display: block; }
+.diff .ctx { display: block; }
+.omitted { color: #57606a; font-style: italic; }
+`;
+
+export function renderHtml(transcript: Transcript): string {
+  const parts: string[] = [];
+
+  for (const msg of transcript.messages) {
+    if (msg.role === "user") {
+      parts.push(
+        `<div class="msg user"><div class="role">User</div>` +
+          `<div class="text">${escapeHtml(msg.content)}</div></div>`
+      );
+      continue;
+    }
+
+    const body: string[] = [];
+    if (msg.content) {
+      body.push(`<div class="text">${escapeHtml(msg.content)}</div>`);
+    }
+    for (const call of msg.tool_calls) {
+      const output =
+        call.omitted_chars !== null
+          ? `<p class="omitted">Output omitted (${call.omitted_chars} characters)</p>`
+          : call.output !== null
+            ? `<pre>${escapeHtml(call.output)}</pre>`
+            : "";
+      body.push(
+        `<details${call.diff ? " open" : ""}><summary>${escapeHtml(call.name)}</summary>` +
+          `<pre>${escapeHtml(formatArguments(call.arguments))}</pre>` +
+          (call.diff ? renderDiffHtml(call.diff) : "") +
+          output +
+          `</details>`
+      );
+    }
+    parts.push(`<div class="msg assistant"><div class="role">Assistant</div>${body.join("")}</div>`);
+  }
+
+  const summary = summaryLines(transcript)
+    .map((line) => `<li>${escapeHtml(line)}</li>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Session ${escapeHtml(transcript.session_id)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>Session ${escapeHtml(transcript.session_id)}</h1>
+<ul class="summary">${summary}</ul>
+${parts.join("\n")}
+</body>
+</html>
+`;
+}
+
+export function exportSession(
+  snapshot: SessionSnapshot,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  const transcript = buildTranscript(snapshot, options);
+
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(transcript);
+    case "html":
+      return renderHtml(transcript);
+    case "json":
+      return JSON.stringify(transcript, null, 2) + "\n";
+  }
+}
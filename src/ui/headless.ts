@@ -0,0 +1,153 @@
+import { AgentEvent, AgentEventType } from "../agent/events.js";
+
+export type OutputFormat = "text" | "json" | "jsonl";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "jsonl"];
+
+/**
+ * Process exit codes for single-prompt runs. These are part of the CLI
+ * contract for scripted use - do not renumber.
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  FAILURE = 1,
+  MAX_TURNS = 2,
+  TOOL_REJECTED = 3,
+  API_ERROR = 4,
+  BUDGET_EXCEEDED = 5,
+  CANCELLED = 130,
+}
+
+/** Tracks the events of one run and derives its exit code. */
+export class RunOutcome {
+  public response: string | null = null;
+  public errors: Array<Record<string, any>> = [];
+  public usage: Record<string, any> | null = null;
+  public cost: number | null = null;
+  private ended = false;
+  private cancelled = false;
+  private rejectedTools = 0;
+
+  observe(event: AgentEvent): void {
+    switch (event.type) {
+      case AgentEventType.TEXT_COMPLETE:
+        this.response = event.data.content;
+        break;
+      case AgentEventType.AGENT_ERROR:
+        this.errors.push({
+          error: event.data.error,
+          kind: event.data.details?.kind || null,
+        });
+        break;
+      case AgentEventType.AGENT_CANCELLED:
+        this.cancelled = true;
+        break;
+      case AgentEventType.TOOL_CALL_COMPLETE:
+        if (event.data.metadata?.rejected) {
+          this.rejectedTools++;
+        }
+        break;
+      case AgentEventType.AGENT_END:
+        this.ended = true;
+        this.usage = event.data.usage;
+        this.cost = event.data.cost ?? null;
+        if (event.data.response) {
+          this.response = event.data.response;
+        }
+        break;
+    }
+  }
+
+  get exitCode(): ExitCode {
+    if (this.cancelled) {
+      return ExitCode.CANCELLED;
+    }
+    if (this.errors.some((e) => e.kind === "api_error")) {
+      return ExitCode.API_ERROR;
+    }
+    if (this.errors.some((e) => e.kind === "budget_exceeded")) {
+      return ExitCode.BUDGET_EXCEEDED;
+    }
+    if (this.errors.some((e) => e.kind === "max_turns")) {
+      return ExitCode.MAX_TURNS;
+    }
+    if (this.rejectedTools > 0) {
+      return ExitCode.TOOL_REJECTED;
+    }
+    if (!this.ended || !this.response || this.errors.length > 0) {
+      return ExitCode.FAILURE;
+    }
+    return ExitCode.SUCCESS;
+  }
+}
+
+/**
+ * Machine-readable renderer for `--output-format json|jsonl`.
+ *
+ * jsonl writes every AgentEvent as one JSON object per line as it happens;
+ * json buffers the run and writes a single result object at the end.
+ */
+export class HeadlessRenderer {
+  public readonly outcome = new RunOutcome();
+  private events: Array<Record<string, any>> = [];
+  private toolCalls: Map<string, Record<string, any>> = new Map();
+
+  constructor(
+    private format: Exclude<OutputFormat, "text">,
+    private out: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  handle(event: AgentEvent): void {
+    this.outcome.observe(event);
+
+    if (this.format === "jsonl") {
+      this.write(event.toDict());
+      return;
+    }
+
+    if (event.type === AgentEventType.TOOL_CALL_START) {
+      this.toolCalls.set(event.data.call_id, {
+        call_id: event.data.call_id,
+        name: event.data.name,
+        arguments: event.data.arguments,
+      });
+    } else if (event.type === AgentEventType.TOOL_CALL_COMPLETE) {
+      const { type: _type, ...data } = event.toDict();
+      this.toolCalls.set(event.data.call_id, {
+        ...this.toolCalls.get(event.data.call_id),
+        ...data,
+      });
+    } else if (event.type !== AgentEventType.TEXT_DELTA) {
+      this.events.push(event.toDict());
+    }
+  }
+
+  /** Report a failure that happened outside the agent loop (e.g. bad config). */
+  fail(error: string): void {
+    this.handle(AgentEvent.agentError(error, { kind: "startup" }));
+  }
+
+  finish(): ExitCode {
+    const exitCode = this.outcome.exitCode;
+
+    if (this.format === "json") {
+      this.write({
+        type: "result",
+        success: exitCode === ExitCode.SUCCESS,
+        exit_code: exitCode,
+        response: this.outcome.response,
+        usage: this.outcome.usage,
+        cost: this.outcome.cost,
+        errors: this.outcome.errors,
+        tool_calls: Array.from(this.toolCalls.values()),
+        events: this.events,
+      });
+    }
+
+    return exitCode;
+  }
+
+  private write(value: Record<string, any>): void {
+    this.out.write(JSON.stringify(value) + "\n");
+  }
+}
@@ -1,10 +1,24 @@
 import chalk from "chalk";
 import boxen from "boxen";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import ora from "ora";
 import Table from "cli-table3";
-import { Config } from "../config/config.js";
-import { ToolConfirmation } from "../tools/base.js";
+import { Config, ResolvedModel } from "../config/config.js";
+import { FileDiff, ToolConfirmation } from "../tools/base.js";
 import { ToolKind } from "../tools/base.js";
+import { formatCost } from "../client/pricing.js";
+import {
+  Branch,
+  BranchComparison,
+  TurnNode,
+  summarizeTurn,
+} from "../agent/history.js";
+import { FileChange } from "../safety/shadow_store.js";
+import { SearchHit } from "../agent/search.js";
+import { ContextBreakdown, TokenShare } from "../context/manager.js";
 
 type OraInstance = ReturnType<typeof ora>;
 
@@ -52,6 +66,31 @@ export class TUI {
     console.log(chalk.bold(message));
   }
 
+  printCompaction(data: Record<string, any>): void {
+    if (data.summarized_messages === 0) {
+      this.printWarning("Context is nearly full but no older turns could be compacted");
+      return;
+    }
+    const note = data.fallback ? " (summary unavailable; kept requests only)" : "";
+    this.printDim(
+      `Compacted context: ${data.tokens_before.toLocaleString()} → ` +
+        `${data.tokens_after.toLocaleString()} tokens, ` +
+        `${data.summarized_messages} messages summarized, ` +
+        `${data.preserved_messages} kept${note}`
+    );
+  }
+
+  printLoopDetected(data: Record<string, any>): void {
+    const actions: Record<string, string> = {
+      nudge: "asking the agent to change approach",
+      plan_review: "asking the agent to review its plan",
+      ask_user: "waiting for your decision",
+    };
+    this.printWarning(
+      `Loop detected: ${data.description} (${actions[data.escalation] || data.escalation})`
+    );
+  }
+
   beginAssistant(): void {
     console.log();
     console.log(chalk.bold.white("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"));
@@ -249,12 +288,128 @@ export class TUI {
 
     if (stats.token_usage) {
       const usage = stats.token_usage;
-      rows.push(["Tokens Used", String(usage.total || 0)]);
-      rows.push(["Prompt Tokens", String(usage.prompt || 0)]);
-      rows.push(["Completion Tokens", String(usage.completion || 0)]);
+      rows.push(["Tokens Used", String(usage.totalTokens || 0)]);
+      rows.push(["Prompt Tokens", String(usage.promptTokens || 0)]);
+      rows.push(["Completion Tokens", String(usage.completionTokens || 0)]);
+      rows.push(["Cached Tokens", String(usage.cachedTokens || 0)]);
+    }
+
+    const percent = (ratio: number | null): string =>
+      ratio === null ? "-" : `${(ratio * 100).toFixed(1)}%`;
+
+    if (stats.cache) {
+      rows.push(["Cache Hit Ratio", percent(stats.cache.hit_ratio)]);
+    }
+
+    if (stats.cost) {
+      const cost = stats.cost;
+      rows.push(["Session Cost", formatCost(cost.session_usd || 0)]);
+      rows.push(["Today's Cost", formatCost(cost.daily_usd || 0)]);
+      if (cost.unpriced_models?.length > 0) {
+        rows.push(["Unpriced Models", chalk.yellow(cost.unpriced_models.join(", "))]);
+      }
     }
 
     this.printTable(["Metric", "Value"], rows);
+
+    if (stats.cache?.turns?.length > 0) {
+      console.log();
+      console.log(chalk.bold("Prompt cache by turn"));
+      this.printTable(
+        ["Turn", "Prompt", "Cached", "Written", "Hit ratio"],
+        stats.cache.turns.map((turn: Record<string, any>) => [
+          String(turn.turn),
+          turn.prompt_tokens.toLocaleString(),
+          turn.cached_tokens.toLocaleString(),
+          turn.cache_write_tokens.toLocaleString(),
+          percent(turn.hit_ratio),
+        ])
+      );
+    }
+  }
+
+  printContextBreakdown(breakdown: ContextBreakdown): void {
+    const { contextWindow, totalTokens } = breakdown;
+    const ratio = Math.min(1, totalTokens / contextWindow);
+    const width = 40;
+    const filled = Math.round(ratio * width);
+    // Compaction starts at 80%
+    const color = ratio >= 0.8 ? chalk.red : ratio >= 0.6 ? chalk.yellow : chalk.green;
+
+    console.log();
+    console.log(chalk.bold("Context Usage"));
+    console.log(chalk.dim("─".repeat(50)));
+    console.log(
+      `${color("█".repeat(filled))}${chalk.dim("░".repeat(width - filled))} ` +
+        `${(ratio * 100).toFixed(1)}% ` +
+        chalk.dim(`(${totalTokens.toLocaleString()} / ${contextWindow.toLocaleString()} tokens)`)
+    );
+
+    const shareRows = (shares: TokenShare[]): string[][] =>
+      shares.map((share) => [
+        share.name,
+        share.tokens.toLocaleString(),
+        `${((share.tokens / totalTokens) * 100).toFixed(1)}%`,
+      ]);
+    const sum = (shares: TokenShare[]): number =>
+      shares.reduce((total, share) => total + share.tokens, 0);
+
+    console.log();
+    console.log(chalk.bold(`System prompt (${sum(breakdown.systemSections).toLocaleString()} tokens)`));
+    this.printTable(["Section", "Tokens", "Share"], shareRows(breakdown.systemSections));
+
+    if (breakdown.toolSchemas.length > 0) {
+      console.log();
+      console.log(chalk.bold(`Tool schemas (${sum(breakdown.toolSchemas).toLocaleString()} tokens)`));
+      this.printTable(["Tool", "Tokens", "Share"], shareRows(breakdown.toolSchemas));
+    }
+
+    console.log();
+    console.log(chalk.bold(`Messages (${sum(breakdown.messagesByRole).toLocaleString()} tokens)`));
+    if (breakdown.messagesByRole.length === 0) {
+      console.log(chalk.dim("  No messages yet"));
+    } else {
+      this.printTable(
+        ["Role", "Messages", "Tokens", "Share"],
+        breakdown.messagesByRole.map((share) => [
+          share.name,
+          String(share.count),
+          share.tokens.toLocaleString(),
+          `${((share.tokens / totalTokens) * 100).toFixed(1)}%`,
+        ])
+      );
+    }
+
+    if (breakdown.largestToolOutputs.length > 0) {
+      console.log();
+      console.log(chalk.bold("Largest tool outputs"));
+      this.printTable(
+        ["Tool", "Call ID", "Message #", "Tokens"],
+        breakdown.largestToolOutputs.map((output) => [
+          output.name,
+          output.toolCallId,
+          String(output.messageNumber),
+          output.tokens.toLocaleString(),
+        ])
+      );
+    }
+  }
+
+  printModels(models: ResolvedModel[], activeProfile: string): void {
+    console.log();
+    console.log(chalk.bold(`Model Profiles (${models.length})`));
+    console.log(chalk.dim("─".repeat(50)));
+
+    const rows: string[][] = models.map((model) => [
+      model.profile === activeProfile
+        ? chalk.green(`* ${model.profile}`)
+        : `  ${model.profile}`,
+      model.name,
+      model.provider,
+      String(model.contextWindow),
+    ]);
+
+    this.printTable(["Profile", "Model", "Provider", "Context"], rows);
   }
 
   printTools(tools: Array<{ name: string; description: string }>): void {
@@ -361,6 +516,10 @@ export class TUI {
       console.log(chalk.red.bold("⚠ WARNING: This operation is potentially dangerous!"));
     }
 
+    return this.confirm("\nApprove?");
+  }
+
+  async confirm(question: string): Promise<boolean> {
     const readline = await import("readline");
     const rl = readline.createInterface({
       input: process.stdin,
@@ -368,13 +527,91 @@ export class TUI {
     });
 
     return new Promise((resolve) => {
-      rl.question(chalk.yellow("\nApprove? (y/n): "), (answer) => {
+      rl.question(chalk.yellow(`${question} (y/n): `), (answer) => {
         rl.close();
         resolve(answer.toLowerCase() === "y" || answer.toLowerCase() === "yes");
       });
     });
   }
 
+  /** Ask until one of `choices` (or its first letter) is given; null on empty input. */
+  async choose<T extends string>(question: string, choices: T[]): Promise<T | null> {
+    const readline = await import("readline");
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    const labels = choices.map((c) => `[${c[0]}]${c.slice(1)}`).join(", ");
+    rl.setPrompt(chalk.yellow(`${question} ${labels}: `));
+    rl.prompt();
+
+    try {
+      for await (const line of rl) {
+        const answer = line.trim().toLowerCase();
+        if (!answer) {
+          return null;
+        }
+        const choice = choices.find((c) => c === answer || c[0] === answer);
+        if (choice) {
+          return choice;
+        }
+        rl.prompt();
+      }
+      return null;
+    } finally {
+      rl.close();
+    }
+  }
+
+  /** Let the user edit `text` in $VISUAL/$EDITOR; null if the editor failed. */
+  editText(text: string, extension: string = ".md"): string | null {
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    const dir = mkdtempSync(join(tmpdir(), "ai-agent-edit-"));
+    const path = join(dir, `edit${extension}`);
+
+    try {
+      writeFileSync(path, text, { encoding: "utf-8", mode: 0o600 });
+      // Through the shell, so EDITOR may carry arguments (e.g. "code --wait")
+      const result = spawnSync(`${editor} "${path}"`, { stdio: "inherit", shell: true });
+      if (result.status !== 0) {
+        return null;
+      }
+      return readFileSync(path, "utf-8");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  printCompactionPreview(summary: string, summarized: number, preserved: number): void {
+    console.log();
+    console.log(
+      boxen(summary.trim(), {
+        title: `Summary of ${summarized} messages (${preserved} most recent kept as is)`,
+        titleAlignment: "left",
+        borderStyle: "round",
+        padding: { top: 0, bottom: 0, left: 1, right: 1 },
+        borderColor: "cyan",
+      })
+    );
+  }
+
+  printFileChanges(changes: FileChange[]): void {
+    if (changes.length === 0) {
+      console.log(chalk.dim("  No file changes"));
+      return;
+    }
+
+    const styles: Record<FileChange["status"], [string, typeof chalk]> = {
+      modified: ["M", chalk.yellow],
+      added: ["A", chalk.green],
+      deleted: ["D", chalk.red],
+    };
+    for (const change of changes) {
+      const [marker, color] = styles[change.status];
+      console.log(`  ${color(marker)} ${change.path}`);
+    }
+  }
+
   printHelp(): void {
     const helpText = `
 ${chalk.bold("Available Commands:")}
@@ -382,18 +619,31 @@ ${chalk.bold("Available Commands:")}
   ${chalk.cyan("/help")}          - Show this help message
   ${chalk.cyan("/config")}        - Show current configuration
   ${chalk.cyan("/clear")}         - Clear conversation history
-  ${chalk.cyan("/model <name>")} - Change model
+  ${chalk.cyan("/model [name]")}  - List profiles, or switch by profile name or model ID
   ${chalk.cyan("/approval <policy>")} - Change approval policy
   ${chalk.cyan("/stats")}         - Show session statistics
+  ${chalk.cyan("/context")}       - Show what the context window is used for
   ${chalk.cyan("/tools")}         - List available tools
   ${chalk.cyan("/mcp")}           - List MCP servers
   ${chalk.cyan("/mcp-health")}    - Check MCP server health
   ${chalk.cyan("/reload")}        - Reload discovered tools
   ${chalk.cyan("/save")}          - Save current session
   ${chalk.cyan("/sessions")}      - List saved sessions
+  ${chalk.cyan("/sessions search <query>")} - Search saved sessions
+  ${chalk.cyan("/sessions pin|unpin [id]")} - Keep a session from being pruned
+  ${chalk.cyan("/sessions rename [id] <title>")} - Rename a session
+  ${chalk.cyan("/sessions delete <id>")} - Delete a saved session
   ${chalk.cyan("/resume <id>")}   - Resume a saved session
   ${chalk.cyan("/checkpoint")}    - Create a checkpoint
-  ${chalk.cyan("/restore <id>")}  - Restore from checkpoint
+  ${chalk.cyan("/restore <id>")}  - Restore from checkpoint (conversation and files)
+  ${chalk.cyan("/compact [instructions]")} - Summarize older turns now, with optional focus
+  ${chalk.cyan("/undo [n]")}      - Roll back the last n turns and their file edits
+  ${chalk.cyan("/export <format> [path]")} - Export the transcript (markdown, html, json)
+  ${chalk.cyan("/turns")}         - List turns on the current branch
+  ${chalk.cyan("/fork <turn> [name]")} - Branch off just before a turn
+  ${chalk.cyan("/branches")}      - List conversation branches
+  ${chalk.cyan("/branch <name>")} - Switch to a branch
+  ${chalk.cyan("/branch-diff <a> [b]")} - Compare two branches since they diverged
   ${chalk.cyan("/exit, /quit")}   - Exit the program
 `;
     console.log(helpText);
@@ -410,12 +660,124 @@ ${chalk.bold("Available Commands:")}
     }
 
     const rows: string[][] = sessions.map((s) => [
-      s.session_id || "N/A",
+      (s.session_id || "N/A") + (s.pinned ? chalk.yellow(" *") : ""),
+      s.title ? this.truncateOutput(s.title, 40) : chalk.dim("(untitled)"),
       String(s.turn_count || 0),
       s.updated_at || "N/A",
     ]);
 
-    this.printTable(["Session ID", "Turns", "Updated"], rows);
+    this.printTable(["Session ID", "Title", "Turns", "Updated"], rows);
+  }
+
+  printSearchResults(query: string, hits: SearchHit[]): void {
+    console.log();
+    console.log(chalk.bold(`Sessions matching "${query}" (${hits.length})`));
+    console.log(chalk.dim("─".repeat(50)));
+
+    if (hits.length === 0) {
+      console.log(chalk.dim("  No matching sessions"));
+      return;
+    }
+
+    for (const hit of hits) {
+      const title = hit.title || hit.firstPrompt || "(untitled)";
+      console.log();
+      console.log(`${chalk.bold(title)} ${chalk.dim(`(${hit.matches} matches)`)}`);
+      console.log(chalk.dim(`  ${hit.sessionId} · ${hit.updatedAt}${hit.cwd ? ` · ${hit.cwd}` : ""}`));
+      if (hit.files.length > 0) {
+        const shown = hit.files.slice(0, 5).join(", ");
+        const more = hit.files.length > 5 ? ` (+${hit.files.length - 5} more)` : "";
+        console.log(`  ${chalk.cyan("files:")} ${shown}${more}`);
+      }
+      for (const snippet of hit.snippets) {
+        console.log(`  ${chalk.dim("›")} ${snippet}`);
+      }
+    }
+  }
+
+  printTurns(turns: TurnNode[], alternatives: Map<number, string[]>): void {
+    console.log();
+    console.log(chalk.bold(`Turns (${turns.length})`));
+    console.log(chalk.dim("─".repeat(50)));
+
+    if (turns.length === 0) {
+      console.log(chalk.dim("  No turns yet"));
+      return;
+    }
+
+    const rows: string[][] = turns.map((turn, i) => {
+      const summary = summarizeTurn(turn);
+      const forks = alternatives.get(i + 1);
+      return [
+        String(i + 1),
+        this.truncateOutput(turn.prompt.replace(/\s+/g, " "), 60),
+        turn.branch,
+        String(summary.toolCalls.length),
+        forks ? chalk.yellow(forks.join(", ")) : "",
+      ];
+    });
+
+    this.printTable(["#", "Prompt", "Branch", "Tools", "Alternatives"], rows);
+  }
+
+  printBranches(branches: Branch[], turnCounts: Map<string, number>, current: string): void {
+    console.log();
+    console.log(chalk.bold(`Branches (${branches.length})`));
+    console.log(chalk.dim("─".repeat(50)));
+
+    const rows: string[][] = branches.map((branch) => [
+      branch.name === current ? chalk.green(`* ${branch.name}`) : `  ${branch.name}`,
+      String(turnCounts.get(branch.name) || 0),
+      branch.parent ? `${branch.parent} @ turn ${branch.forkTurn}` : "",
+      branch.createdAt.toISOString(),
+    ]);
+
+    this.printTable(["Branch", "Turns", "Forked From", "Created"], rows);
+  }
+
+  printBranchComparison(left: string, right: string, comparison: BranchComparison): void {
+    const render = (turns: TurnNode[]): string =>
+      turns
+        .map((turn) => {
+          const summary = summarizeTurn(turn);
+          const lines = [`> ${summary.prompt}`];
+          for (const call of summary.toolCalls) {
+            lines.push(`  [tool] ${call}`);
+          }
+          if (summary.response) {
+            lines.push(summary.response);
+          }
+          return lines.join("\n");
+        })
+        .join("\n\n") + "\n";
+
+    console.log();
+    console.log(chalk.bold(`${left} vs ${right}`));
+    console.log(chalk.dim("─".repeat(50)));
+    console.log(
+      chalk.dim(
+        `Shared turns: ${comparison.commonTurns}, ` +
+          `${left}: +${comparison.left.length}, ${right}: +${comparison.right.length}`
+      )
+    );
+
+    if (comparison.left.length === 0 && comparison.right.length === 0) {
+      console.log(chalk.dim("  Branches have not diverged"));
+      return;
+    }
+
+    // FileDiff names both sides after one path; label them by branch instead
+    const diff = new FileDiff(left, render(comparison.left), render(comparison.right));
+    const lines = [`--- ${left}`, `+++ ${right}`, ...diff.toDiff().split("\n").slice(2)];
+    for (const line of lines) {
+      if (line.startsWith("+")) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith("-")) {
+        console.log(chalk.red(line));
+      } else {
+        console.log(chalk.dim(line));
+      }
+    }
   }
 
   printGoodbye(): void {
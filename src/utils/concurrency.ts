@@ -0,0 +1,31 @@
+// Minimal promise concurrency limiter (p-limit style)
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  const maxActive = Math.max(1, Math.floor(concurrency));
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = (): void => {
+    if (active >= maxActive || queue.length === 0) {
+      return;
+    }
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
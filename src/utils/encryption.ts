@@ -0,0 +1,224 @@
+// Optional at-rest encryption for files under the data dir (sessions, memory)
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  hkdfSync,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { basename, dirname, join } from "path";
+import { getDataDir } from "../config/loader.js";
+import { EncryptionConfig } from "../config/config.js";
+import { ConfigError } from "./errors.js";
+
+// Header of encrypted files; plaintext JSON can never start with it
+const MAGIC = Buffer.from("AIAGENC1", "ascii");
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + SALT_BYTES + IV_BYTES + TAG_BYTES;
+
+// scrypt cost for passphrases; 16 MB of memory per derivation
+const SCRYPT_OPTIONS = { N: 2 ** 14, r: 8, p: 1 };
+
+// Shared by every file written with a passphrase, so a process derives the
+// key once rather than once per file
+const SALT_FILE = "encryption_salt";
+
+export function isEncrypted(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * AES-256-GCM with a key from a key file (expanded with HKDF) or a
+ * passphrase (stretched with scrypt). Each file carries the salt and IV it
+ * was written with, so keys can be re-derived from the secret alone.
+ */
+export class StorageCipher {
+  // One cipher per secret and data dir, so its derived keys are reused by
+  // every later fromConfig call instead of re-running scrypt
+  private static cache: Map<string, StorageCipher> = new Map();
+  private keys: Map<string, Buffer> = new Map();
+
+  private constructor(
+    private readonly secret: Buffer,
+    private readonly isPassphrase: boolean,
+    private readonly salt: Buffer
+  ) {}
+
+  /** The configured cipher, or null when encryption is off. */
+  static fromConfig(
+    config: EncryptionConfig,
+    dataDir: string = getDataDir()
+  ): StorageCipher | null {
+    if (!config.enabled) {
+      return null;
+    }
+
+    if (config.keyFile) {
+      let secret: Buffer;
+      try {
+        secret = readFileSync(config.keyFile);
+      } catch (error: any) {
+        throw new ConfigError(`Cannot read encryption key file: ${error.message}`, {
+          configKey: "encryption.keyFile",
+        });
+      }
+      if (secret.length < 16) {
+        throw new ConfigError("Encryption key file must hold at least 16 bytes", {
+          configKey: "encryption.keyFile",
+        });
+      }
+      return StorageCipher.cached(secret, false, dataDir, () => randomBytes(SALT_BYTES));
+    }
+
+    const passphrase = process.env[config.passphraseEnv];
+    if (!passphrase) {
+      throw new ConfigError(
+        `Encryption is enabled but neither a key file nor ${config.passphraseEnv} is set`,
+        { configKey: "encryption" }
+      );
+    }
+    return StorageCipher.cached(Buffer.from(passphrase, "utf-8"), true, dataDir, () =>
+      loadSalt(dataDir)
+    );
+  }
+
+  private static cached(
+    secret: Buffer,
+    isPassphrase: boolean,
+    dataDir: string,
+    salt: () => Buffer
+  ): StorageCipher {
+    const id = createHash("sha256")
+      .update(secret)
+      .update(`\0${isPassphrase}\0${dataDir}`)
+      .digest("hex");
+    let cipher = StorageCipher.cache.get(id);
+    if (!cipher) {
+      cipher = new StorageCipher(secret, isPassphrase, salt());
+      StorageCipher.cache.set(id, cipher);
+    }
+    return cipher;
+  }
+
+  private key(salt: Buffer): Buffer {
+    const id = salt.toString("hex");
+    let key = this.keys.get(id);
+    if (!key) {
+      key = this.isPassphrase
+        ? scryptSync(this.secret, salt, 32, SCRYPT_OPTIONS)
+        : Buffer.from(hkdfSync("sha256", this.secret, salt, "ai-agent storage", 32));
+      this.keys.set(id, key);
+    }
+    return key;
+  }
+
+  encrypt(plaintext: Buffer): Buffer {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", this.key(this.salt), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([MAGIC, this.salt, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  decrypt(data: Buffer): Buffer {
+    let offset = MAGIC.length;
+    const salt = data.subarray(offset, (offset += SALT_BYTES));
+    const iv = data.subarray(offset, (offset += IV_BYTES));
+    const tag = data.subarray(offset, (offset += TAG_BYTES));
+
+    const decipher = createDecipheriv("aes-256-gcm", this.key(salt), iv);
+    decipher.setAuthTag(tag);
+    try {
+      return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+    } catch {
+      throw new ConfigError("Cannot decrypt stored data: wrong key or corrupted file", {
+        configKey: "encryption",
+      });
+    }
+  }
+}
+
+function loadSalt(dataDir: string): Buffer {
+  const path = join(dataDir, SALT_FILE);
+  if (existsSync(path)) {
+    const salt = Buffer.from(readFileSync(path, "utf-8").trim(), "hex");
+    if (salt.length === SALT_BYTES) {
+      return salt;
+    }
+  }
+  const salt = randomBytes(SALT_BYTES);
+  mkdirSync(dataDir, { recursive: true });
+  writeFileSync(path, salt.toString("hex"), { encoding: "utf-8", mode: 0o600 });
+  return salt;
+}
+
+/**
+ * Replace `path` by writing a temp file next to it and renaming it over,
+ * so a crash or a full disk leaves the old file intact.
+ */
+export function writeFileAtomic(path: string, data: Buffer | string, mode: number = 0o600): void {
+  const temp = join(dirname(path), `.${basename(path)}.${randomBytes(6).toString("hex")}.tmp`);
+  try {
+    writeFileSync(temp, data, { mode });
+    renameSync(temp, path);
+  } catch (error) {
+    try {
+      unlinkSync(temp);
+    } catch {
+      // Never written
+    }
+    throw error;
+  }
+}
+
+/** Read a stored file, decrypting it if it was written encrypted. */
+export function readStoredFile(path: string, cipher: StorageCipher | null): Buffer {
+  const data = readFileSync(path);
+  if (!isEncrypted(data)) {
+    // Files from before encryption was enabled
+    return data;
+  }
+  if (!cipher) {
+    throw new ConfigError(`${path} is encrypted but encryption is not configured`, {
+      configKey: "encryption",
+    });
+  }
+  return cipher.decrypt(data);
+}
+
+export function writeStoredFile(
+  path: string,
+  data: Buffer | string,
+  cipher: StorageCipher | null
+): void {
+  const plaintext = typeof data === "string" ? Buffer.from(data, "utf-8") : data;
+  writeFileAtomic(path, cipher ? cipher.encrypt(plaintext) : plaintext);
+}
+
+/**
+ * Rewrite a plaintext file encrypted, keeping its mtime (retention ages
+ * files by it). Returns false if the file was already encrypted.
+ */
+export function encryptFile(path: string, cipher: StorageCipher): boolean {
+  const data = readFileSync(path);
+  if (isEncrypted(data)) {
+    return false;
+  }
+  const { atime, mtime } = statSync(path);
+  writeFileAtomic(path, cipher.encrypt(data));
+  utimesSync(path, atime, mtime);
+  return true;
+}
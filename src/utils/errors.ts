@@ -63,3 +63,30 @@ export class ConfigError extends AgentError {
     this.configFile = options.configFile;
   }
 }
+
+export class ProviderError extends AgentError {
+  public readonly status?: number;
+  public readonly type?: string;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      type?: string;
+      provider?: string;
+      cause?: Error;
+    } = {}
+  ) {
+    const details: Record<string, any> = {};
+    if (options.provider) {
+      details.provider = options.provider;
+    }
+    if (options.status !== undefined) {
+      details.status = options.status;
+    }
+    super(message, details, options.cause);
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.type = options.type;
+  }
+}
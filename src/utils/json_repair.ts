@@ -0,0 +1,107 @@
+// Repair of the almost-JSON models sometimes produce for tool arguments
+
+const CLOSERS: Record<string, string> = { "{": "}", "[": "]" };
+
+// A string right after "{" or "," in an object is a key
+const DANGLING_KEY = /([{,])\s*"(?:[^"\\]|\\.)*"\s*$/;
+
+export interface RepairedJson {
+  text: string;
+  // What was changed, e.g. "removed a trailing comma"
+  repairs: string[];
+  // The input ended mid-value; closing it cannot restore what was cut off
+  truncated: boolean;
+}
+
+function escapeControl(ch: string): string {
+  if (ch === "\n") {
+    return "\\n";
+  }
+  if (ch === "\r") {
+    return "\\r";
+  }
+  if (ch === "\t") {
+    return "\\t";
+  }
+  return `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`;
+}
+
+/**
+ * Best-effort fix of common JSON mistakes: code fences around the value,
+ * trailing commas, raw newlines and other control characters inside
+ * strings, and output cut off mid-string or with brackets left open. The
+ * text is not guaranteed to parse.
+ */
+export function repairJson(text: string): RepairedJson {
+  let source = text.trim();
+  const repairs = new Set<string>();
+  const fenced = source.match(/^```[a-z]*\s*\n?([\s\S]*?)\n?```$/i);
+  if (fenced) {
+    source = fenced[1].trim();
+    repairs.add("removed a code fence");
+  }
+
+  const stack: string[] = [];
+  let out = "";
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of source) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        out += ch;
+      } else if (ch === "\\") {
+        escaped = true;
+        out += ch;
+      } else if (ch === '"') {
+        inString = false;
+        out += ch;
+      } else if (ch < " ") {
+        out += escapeControl(ch);
+        repairs.add("escaped control characters in a string");
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch);
+    } else if (ch === "}" || ch === "]") {
+      if (/,\s*$/.test(out)) {
+        out = out.replace(/,\s*$/, "");
+        repairs.add("removed a trailing comma");
+      }
+      stack.pop();
+    }
+    out += ch;
+  }
+
+  // Cut off: finish the string, then drop what cannot be completed
+  const truncated = inString || stack.length > 0;
+  if (escaped) {
+    out = out.slice(0, -1);
+  }
+  if (inString) {
+    out += '"';
+    repairs.add("closed an unterminated string");
+  }
+  if (stack[stack.length - 1] === "{") {
+    out = out.replace(DANGLING_KEY, "$1");
+  }
+  out = out.replace(/,\s*$/, "");
+  if (/:\s*$/.test(out)) {
+    out += " null";
+  }
+  if (stack.length > 0) {
+    repairs.add("closed open brackets");
+  }
+  while (stack.length > 0) {
+    out += CLOSERS[stack.pop()!];
+  }
+
+  return { text: out, repairs: Array.from(repairs), truncated };
+}
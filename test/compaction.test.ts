@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "assert";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+import { ScriptedResponse } from "../src/client/providers/scripted.js";
+
+/**
+ * Two finished prompts, then a context window just small enough that the
+ * third prompt must compact before its first request.
+ */
+async function runUntilCompaction(summary: ScriptedResponse[]): Promise<AgentHarness> {
+  const h = await AgentHarness.create({
+    files: { "a.txt": "line of text\n".repeat(800) },
+    script: [
+      { toolCalls: [{ name: "read_file", arguments: { path: "a.txt" } }] },
+      { text: "Read it." },
+      { text: "Second answer." },
+      ...summary,
+      { text: "Third answer." },
+    ],
+  });
+
+  await h.run("first task alpha");
+  await h.run("second task beta");
+  const estimate = h.agent.session!.contextManager!.estimateRequestTokens();
+  h.config.model.contextWindow = Math.floor(estimate / 0.8);
+  await h.run("third task gamma");
+  return h;
+}
+
+test("older turns are replaced by the summary and recent ones are kept", async () => {
+  const h = await runUntilCompaction([{ text: "## ORIGINAL GOAL\nalpha summary" }]);
+  try {
+    const done = h.assertEvent(AgentEventType.COMPACTION_COMPLETE);
+    assert.ok(done.data.summarized_messages > 0);
+    assert.ok(done.data.tokens_after < done.data.tokens_before);
+    assert.strictEqual(done.data.fallback, false);
+
+    h.assertContextContains("alpha summary");
+    h.assertContextContains("second task beta");
+    h.assertContextContains("third task gamma");
+    assert.ok(!h.messages.some((m) => m.content === "first task alpha"));
+    h.assertScriptConsumed();
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("a failing summary request falls back without losing the prompt", async () => {
+  const failure: ScriptedResponse = { error: { status: 400, message: "bad request" } };
+  const h = await runUntilCompaction([failure, failure]);
+  try {
+    const done = h.assertEvent(AgentEventType.COMPACTION_COMPLETE);
+    assert.strictEqual(done.data.fallback, true);
+    h.assertContextContains("third task gamma");
+    h.assertEvent(AgentEventType.AGENT_END);
+    h.assertScriptConsumed();
+  } finally {
+    await h.cleanup();
+  }
+});
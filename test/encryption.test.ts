@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "assert";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  StorageCipher,
+  isEncrypted,
+  readStoredFile,
+  writeFileAtomic,
+  writeStoredFile,
+} from "../src/utils/encryption.js";
+import { PersistenceManager, SessionSnapshot } from "../src/agent/persistence.js";
+import { TokenUsage } from "../src/client/response.js";
+import { ConfigError } from "../src/utils/errors.js";
+
+const PASSPHRASE_ENV = "AI_AGENT_TEST_PASSPHRASE";
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "encryption-test-"));
+  process.env[PASSPHRASE_ENV] = "correct horse battery staple";
+});
+
+afterEach(() => {
+  delete process.env[PASSPHRASE_ENV];
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+function passphraseCipher(): StorageCipher {
+  return StorageCipher.fromConfig({ enabled: true, passphraseEnv: PASSPHRASE_ENV }, dataDir)!;
+}
+
+function snapshot(sessionId: string): SessionSnapshot {
+  return new SessionSnapshot(
+    sessionId,
+    new Date(),
+    new Date(),
+    1,
+    [{ role: "user", content: "my secret plan" }],
+    new TokenUsage()
+  );
+}
+
+test("round trips with a passphrase and with a key file", () => {
+  const keyFile = join(dataDir, "key");
+  writeFileSync(keyFile, "k".repeat(32));
+  const ciphers = [
+    passphraseCipher(),
+    StorageCipher.fromConfig({ enabled: true, keyFile, passphraseEnv: PASSPHRASE_ENV }, dataDir)!,
+  ];
+
+  for (const cipher of ciphers) {
+    const path = join(dataDir, "data.json");
+    writeStoredFile(path, '{"a": 1}', cipher);
+
+    const stored = readFileSync(path);
+    assert.ok(isEncrypted(stored));
+    assert.ok(!stored.includes("\"a\""));
+    assert.strictEqual(readStoredFile(path, cipher).toString("utf-8"), '{"a": 1}');
+  }
+});
+
+test("no cipher means no encryption", () => {
+  assert.strictEqual(
+    StorageCipher.fromConfig({ enabled: false, passphraseEnv: PASSPHRASE_ENV }, dataDir),
+    null
+  );
+});
+
+test("reuses the cipher, and its derived key, for the same secret", () => {
+  const first = passphraseCipher();
+  assert.strictEqual(passphraseCipher(), first);
+
+  process.env[PASSPHRASE_ENV] = "another passphrase";
+  assert.notStrictEqual(passphraseCipher(), first);
+});
+
+test("a wrong key or a missing cipher is an error, not an empty file", () => {
+  const path = join(dataDir, "data.json");
+  writeStoredFile(path, "secret", passphraseCipher());
+
+  process.env[PASSPHRASE_ENV] = "wrong passphrase";
+  assert.throws(() => readStoredFile(path, passphraseCipher()), ConfigError);
+  assert.throws(() => readStoredFile(path, null), ConfigError);
+
+  const pm = new PersistenceManager(dataDir, passphraseCipher());
+  writeFileSync(join(dataDir, "sessions", "s1.json"), readFileSync(path));
+  assert.throws(() => pm.loadSession("s1"), ConfigError);
+});
+
+test("plaintext sessions stay readable and are encrypted by encryptAll", () => {
+  new PersistenceManager(dataDir).saveSession(snapshot("s1"));
+  const pm = new PersistenceManager(dataDir, passphraseCipher());
+
+  assert.strictEqual(pm.loadSession("s1")?.messages[0].content, "my secret plan");
+  assert.strictEqual(pm.encryptAll(), 1);
+  assert.strictEqual(pm.encryptAll(), 0);
+
+  const stored = readFileSync(join(dataDir, "sessions", "s1.json"));
+  assert.ok(isEncrypted(stored));
+  assert.ok(!stored.includes("secret plan"));
+  assert.strictEqual(pm.loadSession("s1")?.messages[0].content, "my secret plan");
+});
+
+test("a failed write leaves the old file and no temp file behind", () => {
+  const path = join(dataDir, "target");
+  writeFileAtomic(path, "old");
+  writeFileAtomic(path, "new");
+  assert.strictEqual(readFileSync(path, "utf-8"), "new");
+
+  // Renaming over a non-empty directory fails
+  const blocked = join(dataDir, "blocked");
+  mkdirSync(blocked);
+  writeFileSync(join(blocked, "inside"), "kept");
+  assert.throws(() => writeFileAtomic(blocked, "data"));
+
+  assert.deepStrictEqual(readdirSync(dataDir).sort(), ["blocked", "target"]);
+  assert.strictEqual(readFileSync(join(blocked, "inside"), "utf-8"), "kept");
+});
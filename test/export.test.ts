@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "assert";
+import { SessionSnapshot } from "../src/agent/persistence.js";
+import { TokenUsage } from "../src/client/response.js";
+import { EXPORT_FORMATS, exportSession } from "../src/ui/export.js";
+import { REDACTED } from "../src/utils/redact.js";
+
+const ANTHROPIC_KEY = "sk-ant-api03-" + "a1B2c3D4".repeat(6);
+const GITHUB_TOKEN = "ghp_" + "Z9y8X7w6".repeat(5);
+// No known format: only redacted because the config names it
+const CONFIGURED_KEY = "plain-provider-key-1234";
+
+function snapshot(): SessionSnapshot {
+  return new SessionSnapshot(
+    "s1",
+    new Date("2026-01-01T00:00:00Z"),
+    new Date("2026-01-01T00:05:00Z"),
+    1,
+    [
+      { role: "user", content: `My key is ${ANTHROPIC_KEY}, please set it up` },
+      {
+        role: "assistant",
+        content: "Writing the env file.",
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: {
+              name: "write_file",
+              arguments: JSON.stringify({
+                path: ".env",
+                content: `ANTHROPIC_API_KEY=${ANTHROPIC_KEY}\nPROVIDER_KEY=${CONFIGURED_KEY}\n`,
+              }),
+            },
+          },
+        ],
+      },
+      {
+        role: "tool",
+        tool_call_id: "call_1",
+        content: `Wrote .env\nAuthorization: Bearer ${GITHUB_TOKEN}`,
+      },
+    ],
+    new TokenUsage(100, 20, 120)
+  );
+}
+
+test("redaction removes keys from messages, arguments and outputs in every format", () => {
+  for (const format of EXPORT_FORMATS) {
+    const content = exportSession(snapshot(), format, {
+      redact: true,
+      knownSecrets: [CONFIGURED_KEY],
+    });
+
+    for (const secret of [ANTHROPIC_KEY, GITHUB_TOKEN, CONFIGURED_KEY]) {
+      assert.ok(!content.includes(secret), `${format} export contains ${secret}`);
+    }
+    assert.ok(content.includes(REDACTED), `${format} export has no redaction marker`);
+    assert.ok(content.includes("please set it up"));
+  }
+});
+
+test("without redaction the transcript is exported as is", () => {
+  const transcript = JSON.parse(exportSession(snapshot(), "json"));
+
+  assert.strictEqual(
+    transcript.messages[0].content,
+    `My key is ${ANTHROPIC_KEY}, please set it up`
+  );
+  assert.strictEqual(transcript.messages[1].tool_calls[0].arguments.path, ".env");
+  assert.ok(transcript.messages[1].tool_calls[0].output.includes(GITHUB_TOKEN));
+});
@@ -0,0 +1,200 @@
+import assert from "assert";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { createConfig, Config } from "../src/config/config.js";
+import { Agent } from "../src/agent/agent.js";
+import { AgentEvent, AgentEventType } from "../src/agent/events.js";
+import { ToolConfirmation } from "../src/tools/base.js";
+import {
+  ScriptedFixture,
+  ScriptedFixtureData,
+  ScriptedResponse,
+} from "../src/client/providers/scripted.js";
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+export interface HarnessOptions {
+  // Responses replayed in order, one per completion request
+  script?: ScriptedResponse[];
+  // Fixture file in test/fixtures to replay instead of `script`
+  fixture?: string;
+  // Files to create in the workspace, keyed by relative path
+  files?: Record<string, string>;
+  // Extra config merged over the defaults (camelCase keys)
+  config?: Record<string, any>;
+  // Answer for tool confirmations; defaults to approving everything. null
+  // runs without a confirmation callback, like headless runs and subagents.
+  approve?: boolean | ((confirmation: ToolConfirmation) => boolean) | null;
+}
+
+/**
+ * Runs an Agent against the scripted provider in a throwaway workspace,
+ * recording every AgentEvent and confirmation request for assertions:
+ *
+ *   const h = await AgentHarness.create({
+ *     files: { "a.txt": "old\n" },
+ *     script: [
+ *       { toolCalls: [{ name: "write_file", arguments: { path: "a.txt", content: "new\n" } }] },
+ *       { text: "done" },
+ *     ],
+ *   });
+ *   await h.run("update a.txt");
+ *   h.assertFile("a.txt", "new\n");
+ *   h.assertEvent(AgentEventType.AGENT_END);
+ *   await h.cleanup();
+ */
+export class AgentHarness {
+  readonly events: AgentEvent[] = [];
+  readonly confirmations: ToolConfirmation[] = [];
+
+  private constructor(
+    private root: string,
+    readonly dir: string,
+    readonly config: Config,
+    readonly agent: Agent,
+    readonly fixture: ScriptedFixture
+  ) {}
+
+  static async create(options: HarnessOptions): Promise<AgentHarness> {
+    // The fixture lives next to the workspace so tools never see it
+    const root = mkdtempSync(join(tmpdir(), "ai-agent-harness-"));
+    const dir = join(root, "workspace");
+    mkdirSync(dir);
+
+    for (const [path, content] of Object.entries(options.files || {})) {
+      const fullPath = join(dir, path);
+      mkdirSync(dirname(fullPath), { recursive: true });
+      writeFileSync(fullPath, content, "utf-8");
+    }
+
+    const fixtureData: ScriptedFixtureData = options.fixture
+      ? JSON.parse(readFileSync(join(FIXTURES_DIR, options.fixture), "utf-8"))
+      : { responses: options.script || [] };
+    const fixturePath = join(root, "fixture.json");
+    writeFileSync(fixturePath, JSON.stringify(fixtureData, null, 2), "utf-8");
+
+    const overrides = options.config || {};
+    const config = createConfig({
+      // Keep test sessions out of the user's session store
+      autosave: false,
+      fileCheckpoints: false,
+      ...overrides,
+      cwd: dir,
+      model: {
+        ...(overrides.model || {}),
+        provider: "scripted",
+        fixture: fixturePath,
+      },
+    });
+
+    const approve = options.approve === undefined ? true : options.approve;
+    let harness: AgentHarness | null = null;
+    const agent = new Agent(
+      config,
+      approve === null
+        ? undefined
+        : (confirmation) => {
+            harness?.confirmations.push(confirmation);
+            return typeof approve === "function" ? approve(confirmation) : approve;
+          }
+    );
+    await agent.initialize();
+
+    harness = new AgentHarness(root, dir, config, agent, ScriptedFixture.load(fixturePath));
+    return harness;
+  }
+
+  /** Run one prompt to completion and return the events it produced. */
+  async run(message: string, signal?: AbortSignal): Promise<AgentEvent[]> {
+    const events: AgentEvent[] = [];
+    for await (const event of this.agent.run(message, signal)) {
+      events.push(event);
+      this.events.push(event);
+    }
+    return events;
+  }
+
+  eventsOfType(type: AgentEventType): AgentEvent[] {
+    return this.events.filter((event) => event.type === type);
+  }
+
+  /** Assert that an event of the given type (optionally matching) was emitted. */
+  assertEvent(
+    type: AgentEventType,
+    predicate?: (data: Record<string, any>) => boolean
+  ): AgentEvent {
+    const event = this.eventsOfType(type).find((e) => !predicate || predicate(e.data));
+    assert.ok(
+      event,
+      `Expected a ${type} event${predicate ? " matching the predicate" : ""}; got: ` +
+        this.events.map((e) => e.type).join(", ")
+    );
+    return event;
+  }
+
+  assertNoEvent(type: AgentEventType): void {
+    assert.strictEqual(
+      this.eventsOfType(type).length,
+      0,
+      `Expected no ${type} events`
+    );
+  }
+
+  get messages(): Array<Record<string, any>> {
+    return this.agent.session?.contextManager?.getMessages() || [];
+  }
+
+  /** Assert that some context message's content contains `text`. */
+  assertContextContains(text: string): void {
+    const found = this.messages.some(
+      (msg) => typeof msg.content === "string" && msg.content.includes(text)
+    );
+    assert.ok(found, `Expected the context to contain: ${text}`);
+  }
+
+  path(relativePath: string): string {
+    return join(this.dir, relativePath);
+  }
+
+  readFile(relativePath: string): string {
+    return readFileSync(this.path(relativePath), "utf-8");
+  }
+
+  writeFile(relativePath: string, content: string): void {
+    const fullPath = this.path(relativePath);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, content, "utf-8");
+  }
+
+  assertFile(relativePath: string, expected: string | RegExp): void {
+    const fullPath = this.path(relativePath);
+    assert.ok(existsSync(fullPath), `Expected file to exist: ${relativePath}`);
+    const content = this.readFile(relativePath);
+    if (typeof expected === "string") {
+      assert.strictEqual(content, expected, `Unexpected content in ${relativePath}`);
+    } else {
+      assert.match(content, expected, `Unexpected content in ${relativePath}`);
+    }
+  }
+
+  assertNoFile(relativePath: string): void {
+    assert.ok(!existsSync(this.path(relativePath)), `Expected no file at: ${relativePath}`);
+  }
+
+  /** Assert the whole script was consumed. */
+  assertScriptConsumed(): void {
+    assert.strictEqual(
+      this.fixture.remaining,
+      0,
+      `${this.fixture.remaining} scripted responses were not used`
+    );
+  }
+
+  async cleanup(): Promise<void> {
+    await this.agent.close();
+    ScriptedFixture.unload(this.fixture.path);
+    rmSync(this.root, { recursive: true, force: true });
+  }
+}
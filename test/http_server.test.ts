@@ -0,0 +1,129 @@
+import { after, before, test } from "node:test";
+import assert from "assert";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import http from "http";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AgentServer } from "../src/server/http_server.js";
+import { createConfig } from "../src/config/config.js";
+
+let root: string;
+let home: string | undefined;
+let server: AgentServer;
+let port: number;
+
+before(async () => {
+  root = mkdtempSync(join(tmpdir(), "http-server-test-"));
+  // Saved sessions go to the data dir under HOME
+  home = process.env.HOME;
+  process.env.HOME = join(root, "home");
+  mkdirSync(join(root, "workspace"));
+
+  const fixture = join(root, "fixture.json");
+  writeFileSync(
+    fixture,
+    JSON.stringify({ responses: [{ text: "slow answer", delayMs: 10_000 }] }),
+    "utf-8"
+  );
+  const config = createConfig({
+    autosave: false,
+    fileCheckpoints: false,
+    cwd: join(root, "workspace"),
+    model: { provider: "scripted", fixture },
+  });
+
+  server = new AgentServer(config, { host: "127.0.0.1", port: 0 });
+  port = Number(new URL(await server.start()).port);
+});
+
+after(async () => {
+  await server.stop();
+  process.env.HOME = home;
+  rmSync(root, { recursive: true, force: true });
+});
+
+interface Reply {
+  status: number;
+  body: string;
+}
+
+function send(
+  method: string,
+  path: string,
+  options: { headers?: Record<string, string>; body?: string; auth?: boolean } = {}
+): Promise<Reply> {
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.auth !== false) {
+    headers.authorization = `Bearer ${server.token}`;
+  }
+  if (options.body !== undefined && !headers["content-type"]) {
+    headers["content-type"] = "application/json";
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: "127.0.0.1", port, method, path, headers }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, body }));
+    });
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+test("generates a token when none is given and requires it", async () => {
+  assert.match(server.token, /^[0-9a-f]{64}$/);
+
+  assert.strictEqual((await send("GET", "/health", { auth: false })).status, 401);
+  assert.strictEqual(
+    (await send("GET", "/health", { auth: false, headers: { authorization: "Bearer nope" } }))
+      .status,
+    401
+  );
+  assert.strictEqual((await send("GET", "/health")).status, 200);
+});
+
+test("rejects foreign hosts and origins", async () => {
+  const rebound = await send("GET", "/health", { headers: { host: `evil.example:${port}` } });
+  assert.strictEqual(rebound.status, 403);
+
+  const crossSite = await send("GET", "/health", {
+    headers: { origin: "https://evil.example" },
+  });
+  assert.strictEqual(crossSite.status, 403);
+
+  const local = await send("GET", "/health", {
+    headers: { host: `localhost:${port}`, origin: `http://localhost:${port}` },
+  });
+  assert.strictEqual(local.status, 200);
+});
+
+test("requires a JSON content type on POST", async () => {
+  const form = await send("POST", "/sessions", {
+    headers: { "content-type": "text/plain" },
+    body: "{}",
+  });
+  assert.strictEqual(form.status, 415);
+});
+
+test("refuses to delete a session while it runs a prompt", async () => {
+  const created = await send("POST", "/sessions", { body: "{}" });
+  assert.strictEqual(created.status, 201);
+  const sessionId = JSON.parse(created.body).session_id;
+
+  const run = send("POST", `/sessions/${sessionId}/messages`, {
+    body: JSON.stringify({ message: "hello" }),
+  });
+  // Let the run start before deleting
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  assert.strictEqual((await send("DELETE", `/sessions/${sessionId}`)).status, 409);
+
+  const cancelled = await send("POST", `/sessions/${sessionId}/cancel`, { body: "{}" });
+  assert.deepStrictEqual(JSON.parse(cancelled.body), { cancelled: true });
+  await run;
+
+  assert.strictEqual((await send("DELETE", `/sessions/${sessionId}`)).status, 200);
+  const sessions = JSON.parse((await send("GET", "/sessions")).body).sessions;
+  assert.ok(!sessions.some((s: any) => s.session_id === sessionId));
+});
@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "assert";
+import { repairJson } from "../src/utils/json_repair.js";
+import {
+  RAW_ARGUMENTS_KEY,
+  jsonRepairsOf,
+  parseToolCallArguments,
+} from "../src/client/response.js";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+
+test("removes code fences, trailing commas and raw control characters", () => {
+  const repaired = repairJson('```json\n{"a": [1, 2,], "b": "line\nnext",}\n```');
+
+  assert.deepStrictEqual(JSON.parse(repaired.text), { a: [1, 2], b: "line\nnext" });
+  assert.strictEqual(repaired.truncated, false);
+  assert.deepStrictEqual(repaired.repairs, [
+    "removed a code fence",
+    "removed a trailing comma",
+    "escaped control characters in a string",
+  ]);
+});
+
+test("closes cut-off strings and brackets but marks them truncated", () => {
+  const midString = repairJson('{"path": "a.txt", "content": "first li');
+  assert.deepStrictEqual(JSON.parse(midString.text), { path: "a.txt", content: "first li" });
+  assert.strictEqual(midString.truncated, true);
+
+  const danglingKey = repairJson('{"items": [{"a": 1}, {"b": 2}], "next"');
+  assert.deepStrictEqual(JSON.parse(danglingKey.text), { items: [{ a: 1 }, { b: 2 }] });
+  assert.strictEqual(danglingKey.truncated, true);
+
+  const danglingValue = repairJson('{"a": ');
+  assert.deepStrictEqual(JSON.parse(danglingValue.text), { a: null });
+  assert.strictEqual(danglingValue.truncated, true);
+});
+
+test("parses tool arguments and records the repairs it made", () => {
+  const valid = parseToolCallArguments('{"a": 1}');
+  assert.deepStrictEqual(valid, { a: 1 });
+  assert.deepStrictEqual(jsonRepairsOf(valid), []);
+
+  assert.deepStrictEqual(parseToolCallArguments('"{\\"a\\": 1}"'), { a: 1 });
+
+  const repaired = parseToolCallArguments('{"a": 1,}');
+  assert.deepStrictEqual(repaired, { a: 1 });
+  assert.deepStrictEqual(jsonRepairsOf(repaired), ["removed a trailing comma"]);
+});
+
+test("passes truncated and unparseable arguments on raw", () => {
+  const truncated = '{"path": "a.txt", "content": "cut';
+  assert.deepStrictEqual(parseToolCallArguments(truncated), { [RAW_ARGUMENTS_KEY]: truncated });
+  assert.deepStrictEqual(parseToolCallArguments("not json"), { [RAW_ARGUMENTS_KEY]: "not json" });
+  assert.deepStrictEqual(parseToolCallArguments(""), {});
+});
+
+test("a truncated write is rejected with the schema and nothing is written", async () => {
+  const h = await AgentHarness.create({
+    script: [
+      {
+        toolCalls: [
+          { name: "write_file", rawArguments: '{"path": "a.txt", "content": "half of the fi' },
+        ],
+      },
+      { text: "Done." },
+    ],
+  });
+  try {
+    await h.run("write a.txt");
+
+    h.assertNoFile("a.txt");
+    h.assertEvent(
+      AgentEventType.TOOL_CALL_COMPLETE,
+      (data) =>
+        !data.success &&
+        data.metadata.validation_errors[0].startsWith("Arguments were cut off") &&
+        data.metadata.expected_schema.required.includes("content")
+    );
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("JSON and schema repairs are both reported in argument_repairs", async () => {
+  const h = await AgentHarness.create({
+    files: { "a.txt": "hello\n" },
+    script: [
+      { toolCalls: [{ name: "grep", rawArguments: '{"pattern": "hello", "case_insensitive": "true",}' }] },
+      { text: "Done." },
+    ],
+  });
+  try {
+    await h.run("find hello");
+
+    h.assertEvent(AgentEventType.TOOL_CALL_COMPLETE, (data) => {
+      assert.ok(data.success);
+      assert.deepStrictEqual(data.metadata.argument_repairs, [
+        "removed a trailing comma",
+        "case_insensitive: renamed to caseInsensitive",
+        'caseInsensitive: "true" -> true',
+      ]);
+      return true;
+    });
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "assert";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+import { ScriptedResponse } from "../src/client/providers/scripted.js";
+
+const grep = (pattern: string): ScriptedResponse => ({
+  toolCalls: [{ name: "grep", arguments: { pattern } }],
+});
+
+const loopsOf = (h: AgentHarness) =>
+  h.eventsOfType(AgentEventType.LOOP_DETECTED).map((e) => `${e.data.kind}/${e.data.escalation}`);
+
+test("an exact repeat gets a nudge in the context", async () => {
+  const h = await AgentHarness.create({
+    files: { "a.txt": "hello\n" },
+    script: [grep("hello"), grep("hello"), grep("hello"), { text: "Found it." }],
+  });
+  try {
+    await h.run("find hello");
+
+    assert.deepStrictEqual(loopsOf(h), ["exact_repeat/nudge"]);
+    h.assertContextContains("[SYSTEM NOTICE: Loop Detected]");
+    h.assertScriptConsumed();
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("near-duplicate calls count as a loop", async () => {
+  const h = await AgentHarness.create({
+    files: { "a.txt": "handleFoo()\n" },
+    script: [
+      grep("handleFoo"),
+      grep("handlefoo "),
+      grep("handleFoo\\("),
+      grep("handleFoo("),
+      { text: "Found it." },
+    ],
+  });
+  try {
+    await h.run("find handleFoo");
+
+    assert.deepStrictEqual(loopsOf(h), ["near_duplicate/nudge"]);
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("a loop that goes on escalates to a plan review and then to the user", async () => {
+  const repeats = (n: number) => Array.from({ length: n }, () => grep("a1"));
+  const h = await AgentHarness.create({
+    files: { "a.txt": "a1\n" },
+    approve: false,
+    script: [...repeats(6), { text: "Revised plan." }, ...repeats(3)],
+  });
+  try {
+    await h.run("find a1");
+
+    assert.deepStrictEqual(loopsOf(h), [
+      "exact_repeat/nudge",
+      "exact_repeat/plan_review",
+      "exact_repeat/ask_user",
+    ]);
+    // The plan review is answered without tools
+    assert.deepStrictEqual(
+      h.fixture.requests.map((r) => r.toolChoice),
+      ["auto", "auto", "auto", "auto", "auto", "auto", "none", "auto", "auto", "auto"]
+    );
+    assert.deepStrictEqual(
+      h.confirmations.map((c) => c.toolName),
+      ["loop_detected"]
+    );
+    h.assertEvent(AgentEventType.AGENT_ERROR, (data) => data.details.kind === "loop_detected");
+    h.assertScriptConsumed();
+  } finally {
+    await h.cleanup();
+  }
+});
+
+test("a loop with no one to ask ends the run at the last step", async () => {
+  const repeats = (n: number) => Array.from({ length: n }, () => grep("a1"));
+  const h = await AgentHarness.create({
+    files: { "a.txt": "a1\n" },
+    approve: null,
+    script: [...repeats(6), { text: "Revised plan." }, ...repeats(3), { text: "Never sent." }],
+  });
+  try {
+    await h.run("find a1");
+
+    assert.deepStrictEqual(loopsOf(h).slice(-1), ["exact_repeat/ask_user"]);
+    h.assertEvent(AgentEventType.AGENT_ERROR, (data) => data.details.kind === "loop_detected");
+    assert.strictEqual(h.fixture.remaining, 1);
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "assert";
+import { existsSync, mkdtempSync, readdirSync, rmSync, statSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PersistenceManager, SessionSnapshot } from "../src/agent/persistence.js";
+import { TokenUsage } from "../src/client/response.js";
+import { RetentionConfig } from "../src/config/config.js";
+
+const NOW = Date.parse("2026-06-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dataDir: string;
+let pm: PersistenceManager;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "persistence-test-"));
+  pm = new PersistenceManager(dataDir);
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+/** Every limit off; each test turns on the rule it covers. */
+const policy = (overrides: Partial<RetentionConfig> = {}): RetentionConfig => ({
+  maxAgeDays: 0,
+  maxSessions: 0,
+  maxTotalMb: 0,
+  keepPinned: true,
+  compressAfterDays: 0,
+  ...overrides,
+});
+
+function snapshot(sessionId: string, content = "hello"): SessionSnapshot {
+  const at = new Date(NOW);
+  return new SessionSnapshot(
+    sessionId,
+    at,
+    at,
+    1,
+    [{ role: "user", content }],
+    new TokenUsage(),
+    0,
+    `Session ${sessionId}`
+  );
+}
+
+function age(path: string, days: number): void {
+  const time = new Date(NOW - days * DAY_MS);
+  utimesSync(path, time, time);
+}
+
+/** Save a session last written `days` before NOW; returns its file path. */
+function saveSession(sessionId: string, days: number, content?: string): string {
+  pm.saveSession(snapshot(sessionId, content));
+  const path = join(dataDir, "sessions", `${sessionId}.json`);
+  age(path, days);
+  return path;
+}
+
+function saveCheckpoint(sessionId: string, days: number): string {
+  const checkpointId = pm.saveCheckpoint(snapshot(sessionId));
+  age(join(dataDir, "checkpoints", `${checkpointId}.json`), days);
+  return checkpointId;
+}
+
+const sessionFiles = (): string[] => readdirSync(join(dataDir, "sessions")).sort();
+
+test("drops sessions and their checkpoints past the age limit, except pinned and kept ones", () => {
+  saveSession("old", 100);
+  saveSession("recent", 10);
+  saveSession("pinned", 100);
+  saveSession("resumed", 100);
+  pm.pinSession("pinned");
+  const oldCheckpoint = saveCheckpoint("old", 1);
+  const staleCheckpoint = saveCheckpoint("recent", 100);
+  const freshCheckpoint = saveCheckpoint("resumed", 1);
+
+  const report = pm.prune(policy({ maxAgeDays: 90 }), { keep: ["resumed"], now: NOW });
+
+  assert.deepStrictEqual(report.deletedSessions, ["old"]);
+  assert.deepStrictEqual(report.deletedCheckpoints.sort(), [oldCheckpoint, staleCheckpoint].sort());
+  assert.deepStrictEqual(sessionFiles(), ["pinned.json", "recent.json", "resumed.json"]);
+  assert.ok(pm.loadCheckpoint(freshCheckpoint));
+});
+
+test("pinned sessions expire like others when keepPinned is off", () => {
+  saveSession("pinned", 100);
+  pm.pinSession("pinned");
+
+  const report = pm.prune(policy({ maxAgeDays: 90, keepPinned: false }), { now: NOW });
+
+  assert.deepStrictEqual(report.deletedSessions, ["pinned"]);
+  assert.strictEqual(pm.pinnedSessions().size, 0);
+});
+
+test("drops the oldest unpinned sessions over the count limit", () => {
+  for (let i = 1; i <= 5; i++) {
+    saveSession(`s${i}`, i);
+  }
+  pm.pinSession("s5");
+
+  const report = pm.prune(policy({ maxSessions: 3 }), { now: NOW });
+
+  assert.deepStrictEqual(report.deletedSessions, ["s4", "s3"]);
+  assert.deepStrictEqual(sessionFiles(), ["s1.json", "s2.json", "s5.json"]);
+});
+
+test("drops the oldest sessions until the store fits the size limit", () => {
+  const padding = "x".repeat(400 * 1024);
+  saveSession("newest", 1, padding);
+  saveSession("middle", 2, padding);
+  saveSession("oldest", 3, padding);
+  const checkpoint = saveCheckpoint("oldest", 3);
+
+  const report = pm.prune(policy({ maxTotalMb: 1 }), { now: NOW });
+
+  assert.deepStrictEqual(report.deletedSessions, ["oldest"]);
+  assert.deepStrictEqual(report.deletedCheckpoints, [checkpoint]);
+  assert.ok(report.totalBytes <= 1024 * 1024);
+  assert.ok(report.freedBytes > 400 * 1024);
+});
+
+test("gzips idle snapshots and still loads them", () => {
+  const idle = saveSession("idle", 10);
+  const modifiedAt = statSync(idle).mtimeMs;
+  saveSession("active", 1);
+  const checkpoint = saveCheckpoint("idle", 10);
+
+  const report = pm.prune(policy({ compressAfterDays: 7 }), { now: NOW });
+
+  assert.deepStrictEqual(report.compressed, ["idle"]);
+  assert.deepStrictEqual(sessionFiles(), ["active.json", "idle.json.gz"]);
+  // Compressing keeps the mtime that ages are measured from
+  assert.strictEqual(statSync(join(dataDir, "sessions", "idle.json.gz")).mtimeMs, modifiedAt);
+  assert.strictEqual(pm.loadSession("idle")?.messages[0].content, "hello");
+  assert.ok(pm.loadCheckpoint(checkpoint));
+  assert.deepStrictEqual(pm.listSessions().map((s) => s.session_id).sort(), ["active", "idle"]);
+
+  // A new save replaces the compressed copy
+  pm.saveSession(snapshot("idle", "again"));
+  assert.deepStrictEqual(sessionFiles(), ["active.json", "idle.json"]);
+});
+
+test("dryRun reports the same changes without touching the store", () => {
+  saveSession("old", 100);
+  saveSession("idle", 10);
+  saveCheckpoint("old", 100);
+  const before = readdirSync(join(dataDir, "checkpoints"));
+  const rules = policy({ maxAgeDays: 90, compressAfterDays: 7 });
+
+  const preview = pm.prune(rules, { dryRun: true, now: NOW });
+
+  assert.deepStrictEqual(sessionFiles(), ["idle.json", "old.json"]);
+  assert.deepStrictEqual(readdirSync(join(dataDir, "checkpoints")), before);
+
+  const { totalBytes, ...report } = pm.prune(rules, { now: NOW });
+  const { totalBytes: previewTotal, ...previewReport } = preview;
+  assert.deepStrictEqual(previewReport, report);
+  // The preview cannot know the compressed sizes yet
+  assert.ok(previewTotal > totalBytes);
+  assert.deepStrictEqual(sessionFiles(), ["idle.json.gz"]);
+});
+
+test("pins, renames and deletes saved sessions", () => {
+  saveSession("a", 1);
+
+  assert.strictEqual(pm.pinSession("missing"), false);
+  assert.strictEqual(pm.pinSession("a"), true);
+  assert.deepStrictEqual(Array.from(pm.pinnedSessions()), ["a"]);
+  assert.strictEqual(pm.listSessions()[0].pinned, true);
+  assert.strictEqual(pm.pinSession("a", false), true);
+  assert.strictEqual(pm.pinnedSessions().size, 0);
+
+  assert.strictEqual(pm.renameSession("missing", "Nope"), false);
+  assert.strictEqual(pm.renameSession("a", "Fix the parser"), true);
+  assert.strictEqual(pm.loadSession("a")?.title, "Fix the parser");
+  assert.strictEqual(pm.listSessions()[0].title, "Fix the parser");
+
+  pm.pinSession("a");
+  assert.strictEqual(pm.deleteSession("a"), true);
+  assert.strictEqual(pm.loadSession("a"), null);
+  assert.strictEqual(pm.pinnedSessions().size, 0);
+  assert.strictEqual(pm.deleteSession("a"), false);
+  assert.ok(!existsSync(join(dataDir, "sessions", "a.json")));
+});
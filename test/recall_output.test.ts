@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "assert";
+import { createConfig } from "../src/config/config.js";
+import { ContextManager } from "../src/context/manager.js";
+import { digestToolOutput } from "../src/context/digest.js";
+import { ToolInvocation } from "../src/tools/base.js";
+import { RecallOutputTool } from "../src/tools/builtin/recall_output.js";
+
+const config = createConfig({});
+
+async function recall(tool: RecallOutputTool, id: string) {
+  return tool.execute(new ToolInvocation({ id }, process.cwd()));
+}
+
+test("the oldest outputs are dropped once the store is full", async () => {
+  const tool = new RecallOutputTool(config);
+
+  assert.deepStrictEqual(tool.store("a", "a".repeat(90_000)), []);
+  assert.deepStrictEqual(tool.store("b", "b".repeat(90_000)), []);
+  assert.deepStrictEqual(tool.store("c", "c".repeat(90_000)), ["a"]);
+  // Storing an id again keeps the original and drops nothing
+  assert.deepStrictEqual(tool.store("b", "digest"), []);
+
+  assert.strictEqual((await recall(tool, "a")).success, false);
+  assert.strictEqual((await recall(tool, "b")).output, "b".repeat(90_000));
+  assert.deepStrictEqual(Object.keys(tool.getState()!.outputs), ["b", "c"]);
+});
+
+test("digests of dropped outputs no longer offer recall", () => {
+  const manager = new ContextManager(config, null, [new RecallOutputTool(config)]);
+  const output = "line\n".repeat(100);
+  manager.addAssistantMessage(null, [
+    { id: "a", type: "function", function: { name: "shell", arguments: "{}" } },
+    { id: "b", type: "function", function: { name: "shell", arguments: "{}" } },
+  ]);
+  manager.addToolResult("a", digestToolOutput("shell", {}, output, "a", true));
+  manager.addToolResult("b", digestToolOutput("shell", {}, output, "b", true));
+  const generation = manager.generation;
+
+  manager.markOutputsUnrecallable(["a"]);
+
+  const [a, b] = manager.exportMessages(1).map((msg) => msg.content as string);
+  assert.ok(!a.includes("recall_output"));
+  assert.ok(a.includes("the full output is no longer available"));
+  assert.ok(b.includes('call recall_output with id "b"'));
+  assert.strictEqual(manager.generation, generation + 1);
+
+  // Nothing left to change
+  manager.markOutputsUnrecallable(["a"]);
+  assert.strictEqual(manager.generation, generation + 1);
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "assert";
+import { existsSync, mkdtempSync, rmSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PersistenceManager, SessionSnapshot } from "../src/agent/persistence.js";
+import { SessionIndex } from "../src/agent/search.js";
+import { TokenUsage } from "../src/client/response.js";
+
+let dataDir: string;
+let persistence: PersistenceManager;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "search-test-"));
+  persistence = new PersistenceManager(dataDir);
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+function save(
+  sessionId: string,
+  prompt: string,
+  updatedAt: string,
+  writes: Record<string, string> = {}
+): void {
+  const calls = Object.entries(writes).map(([path, content], i) => ({
+    id: `${sessionId}_call_${i}`,
+    type: "function",
+    function: { name: "write_file", arguments: JSON.stringify({ path, content }) },
+  }));
+  const messages: Array<Record<string, any>> = [{ role: "user", content: prompt }];
+  if (calls.length > 0) {
+    messages.push({ role: "assistant", content: null, tool_calls: calls });
+    for (const call of calls) {
+      messages.push({ role: "tool", tool_call_id: call.id, content: "File written" });
+    }
+  }
+  messages.push({ role: "assistant", content: "All done." });
+
+  persistence.saveSession(
+    new SessionSnapshot(
+      sessionId,
+      new Date(updatedAt),
+      new Date(updatedAt),
+      1,
+      messages,
+      new TokenUsage()
+    )
+  );
+}
+
+test("finds sessions containing every query word, as prefixes", () => {
+  save("s1", "Fix the login redirect loop", "2026-01-01T00:00:00Z", {
+    "src/auth/login.ts": "export function redirectAfterLogin() {}",
+  });
+  save("s2", "Speed up the login page", "2026-01-02T00:00:00Z");
+  save("s3", "Write release notes", "2026-01-03T00:00:00Z");
+  const index = new SessionIndex(persistence);
+
+  assert.deepStrictEqual(index.search("login").map((hit) => hit.sessionId), ["s1", "s2"]);
+  assert.deepStrictEqual(index.search("redir LOGIN").map((hit) => hit.sessionId), ["s1"]);
+  assert.deepStrictEqual(index.search("login notes"), []);
+  assert.deepStrictEqual(index.search("!!"), []);
+
+  const [hit] = index.search("redirect");
+  assert.strictEqual(hit.firstPrompt, "Fix the login redirect loop");
+  assert.deepStrictEqual(hit.files, ["src/auth/login.ts"]);
+  assert.ok(hit.snippets[0].startsWith("user: Fix the login redirect"));
+  assert.ok(hit.snippets.some((snippet) => snippet.startsWith("write_file:")));
+  assert.ok(existsSync(join(dataDir, "session_index.json")));
+});
+
+test("ties are broken by the most recently updated session", () => {
+  save("old", "deploy the app", "2026-01-01T00:00:00Z");
+  save("new", "deploy the docs", "2026-02-01T00:00:00Z");
+
+  const hits = new SessionIndex(persistence).search("deploy");
+  assert.deepStrictEqual(hits.map((hit) => hit.sessionId), ["new", "old"]);
+  assert.strictEqual(new SessionIndex(persistence).search("deploy", 1).length, 1);
+});
+
+test("the index follows sessions that change or are deleted", () => {
+  save("s1", "migrate the database", "2026-01-01T00:00:00Z");
+  save("s2", "migrate the queue", "2026-01-01T00:00:00Z");
+  const index = new SessionIndex(persistence);
+  assert.strictEqual(index.search("migrate").length, 2);
+
+  persistence.deleteSession("s2");
+  save("s1", "rotate the certificates", "2026-01-05T00:00:00Z");
+  // Saves within the same millisecond would look unchanged
+  const later = new Date(Date.now() + 10_000);
+  utimesSync(join(dataDir, "sessions", "s1.json"), later, later);
+
+  assert.deepStrictEqual(index.search("migrate"), []);
+  assert.deepStrictEqual(index.search("certificates").map((hit) => hit.sessionId), ["s1"]);
+  assert.deepStrictEqual(Object.keys(index.refresh().sessions), ["s1"]);
+});
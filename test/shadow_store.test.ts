@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "assert";
+import { execFileSync } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ShadowStore } from "../src/safety/shadow_store.js";
+
+let workTree: string;
+let storeRoot: string;
+
+beforeEach(() => {
+  workTree = mkdtempSync(join(tmpdir(), "shadow-work-"));
+  storeRoot = mkdtempSync(join(tmpdir(), "shadow-store-"));
+});
+
+afterEach(() => {
+  rmSync(workTree, { recursive: true, force: true });
+  rmSync(storeRoot, { recursive: true, force: true });
+});
+
+function write(path: string, content: string): void {
+  mkdirSync(join(workTree, path, ".."), { recursive: true });
+  writeFileSync(join(workTree, path), content);
+}
+
+function read(path: string): string {
+  return readFileSync(join(workTree, path), "utf-8");
+}
+
+function userStatus(): string {
+  return execFileSync("git", ["status", "--porcelain"], { cwd: workTree, encoding: "utf-8" });
+}
+
+test("restoring a snapshot brings back changed and deleted files", async () => {
+  execFileSync("git", ["init", "--quiet"], { cwd: workTree });
+  write(".gitignore", "*.log\n");
+  write("a.txt", "original a\n");
+  write("src/b.txt", "original b\n");
+  write("debug.log", "ignored\n");
+  const statusBefore = userStatus();
+
+  const store = new ShadowStore(workTree, 0, storeRoot);
+  const snapshot = await store.snapshot("start");
+  // Nothing changed, so no new snapshot
+  assert.strictEqual(await store.snapshot("again"), snapshot);
+
+  write("a.txt", "edited a\n");
+  unlinkSync(join(workTree, "src/b.txt"));
+  write("new.txt", "new file\n");
+  write("debug.log", "still ignored\n");
+
+  const expected = [
+    { path: "a.txt", status: "modified" },
+    { path: "new.txt", status: "deleted" },
+    { path: "src/b.txt", status: "added" },
+  ];
+  assert.deepStrictEqual(await store.preview(snapshot), expected);
+  assert.deepStrictEqual(await store.restore(snapshot), expected);
+
+  assert.strictEqual(read("a.txt"), "original a\n");
+  assert.strictEqual(read("src/b.txt"), "original b\n");
+  assert.ok(!existsSync(join(workTree, "new.txt")));
+  // Ignored files are not part of snapshots
+  assert.strictEqual(read("debug.log"), "still ignored\n");
+  // The user's own repository was never touched
+  assert.strictEqual(userStatus(), statusBefore);
+  assert.deepStrictEqual(await store.preview(snapshot), []);
+});
+
+test("workspaces outside a git work tree and over the size limit are refused", async () => {
+  write("a.txt", "data\n");
+  await assert.rejects(
+    new ShadowStore(workTree, 0, storeRoot).snapshot("x"),
+    /not inside a git work tree/
+  );
+
+  execFileSync("git", ["init", "--quiet"], { cwd: workTree });
+  write("big.txt", "x".repeat(2048));
+  await assert.rejects(
+    new ShadowStore(workTree, 1024, storeRoot).snapshot("x"),
+    /checkpoint limit/
+  );
+});
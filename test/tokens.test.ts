@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "assert";
+import { createConfig, switchMainModel } from "../src/config/config.js";
+import { ContextManager } from "../src/context/manager.js";
+import { countTokens, estimateTokens, getTokenizer } from "../src/utils/text.js";
+
+const PROSE = "The quick brown fox jumps over the lazy dog. ".repeat(40);
+
+test("picks the vocabulary by model family, ignoring router prefixes", () => {
+  assert.strictEqual(getTokenizer("gpt-4").name, "cl100k_base");
+  assert.strictEqual(getTokenizer("gpt-4o-mini").name, "o200k_base");
+  assert.strictEqual(getTokenizer("openai/gpt-4o").name, "o200k_base");
+  assert.strictEqual(getTokenizer("claude-sonnet-4").name, "estimate");
+});
+
+test("counts with the real tokenizer and estimates close to it otherwise", () => {
+  const tokenizer = getTokenizer("gpt-4o");
+  assert.strictEqual(tokenizer.decode!(tokenizer.encode!(PROSE)), PROSE);
+  assert.strictEqual(countTokens("hello world", "gpt-4o"), 2);
+
+  const real = countTokens(PROSE, "gpt-4o");
+  const estimate = countTokens(PROSE, "claude-sonnet-4");
+  assert.strictEqual(estimate, estimateTokens(PROSE));
+  assert.ok(Math.abs(estimate - real) <= real * 0.1, `${estimate} vs ${real}`);
+  assert.strictEqual(countTokens("", "gpt-4o"), 0);
+});
+
+test("the context manager recounts after the main model is switched", () => {
+  const config = createConfig({ model: { name: "gpt-4o" } });
+  const manager = new ContextManager(config);
+  manager.addUserMessage("请把这个文件翻译成英文。".repeat(50));
+  const before = manager.estimateRequestTokens();
+
+  switchMainModel(config, "claude-sonnet-4");
+  const after = manager.estimateRequestTokens();
+
+  assert.notStrictEqual(after, before);
+  const fresh = new ContextManager(config);
+  fresh.addUserMessage("请把这个文件翻译成英文。".repeat(50));
+  assert.strictEqual(after, fresh.estimateRequestTokens());
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "assert";
+import { z } from "zod";
+import { AgentHarness } from "./harness.js";
+import { AgentEventType } from "../src/agent/events.js";
+import { Tool, ToolInvocation, ToolKind, ToolResult } from "../src/tools/base.js";
+
+const SlowParamsSchema = z.object({
+  label: z.string(),
+  ms: z.number(),
+});
+
+interface Span {
+  label: string;
+  start: number;
+  end: number;
+}
+
+/** Sleeps for `ms` and records when it ran. */
+class SlowTool extends Tool {
+  description = "Wait, then answer";
+  schema = SlowParamsSchema;
+  spans: Span[] = [];
+
+  constructor(
+    config: any,
+    public name: string,
+    public kind: ToolKind
+  ) {
+    super(config);
+  }
+
+  async execute(invocation: ToolInvocation): Promise<ToolResult> {
+    const { label, ms } = SlowParamsSchema.parse(invocation.params);
+    const start = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    this.spans.push({ label, start, end: Date.now() });
+    return ToolResult.successResult(`done ${label}`);
+  }
+}
+
+const call = (name: string, label: string, ms: number) => ({
+  id: label,
+  name,
+  arguments: { label, ms },
+});
+
+test("read-only calls run together, mutating ones one at a time, results in order", async () => {
+  const h = await AgentHarness.create({
+    script: [
+      {
+        toolCalls: [
+          call("slow_read", "a", 300),
+          call("slow_read", "b", 100),
+          call("slow_write", "c", 100),
+          call("slow_write", "d", 50),
+        ],
+      },
+      { text: "Done." },
+    ],
+  });
+  try {
+    const registry = h.agent.session!.toolRegistry;
+    const reader = new SlowTool(h.config, "slow_read", ToolKind.READ);
+    const writer = new SlowTool(h.config, "slow_write", ToolKind.WRITE);
+    registry.register(reader);
+    registry.register(writer);
+
+    await h.run("do four things");
+
+    const span = (label: string): Span =>
+      [...reader.spans, ...writer.spans].find((s) => s.label === label)!;
+    // Both reads were in flight at once
+    assert.ok(span("b").start < span("a").end, "reads did not overlap");
+    // Writes wait for the reads, then for each other
+    assert.ok(span("c").start >= span("a").end, "write started during a read");
+    assert.ok(span("d").start >= span("c").end, "writes overlapped");
+
+    // Completions are reported as they finish...
+    assert.deepStrictEqual(
+      h.eventsOfType(AgentEventType.TOOL_CALL_COMPLETE).map((e) => e.data.call_id),
+      ["b", "a", "c", "d"]
+    );
+    // ...but the results go back to the model in its own order
+    assert.deepStrictEqual(
+      h.messages.filter((m) => m.role === "tool").map((m) => [m.tool_call_id, m.content]),
+      [
+        ["a", "done a"],
+        ["b", "done b"],
+        ["c", "done c"],
+        ["d", "done d"],
+      ]
+    );
+  } finally {
+    await h.cleanup();
+  }
+});
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "assert";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { Tool, ToolInvocation, ToolKind, ToolResult } from "../src/tools/base.js";
+import { getAllBuiltinTools } from "../src/tools/builtin/index.js";
+import { createConfig } from "../src/config/config.js";
+
+// Rewrite with UPDATE_SNAPSHOTS=1 after an intended schema change
+const SNAPSHOT_PATH = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "snapshots",
+  "tool_schemas.json"
+);
+
+const config = createConfig({ cwd: "/workspace" });
+
+test("builtin tool schemas match the snapshot", () => {
+  const schemas = getAllBuiltinTools().map((ToolClass) => new ToolClass(config).toOpenAISchema());
+
+  if (process.env.UPDATE_SNAPSHOTS || !existsSync(SNAPSHOT_PATH)) {
+    mkdirSync(dirname(SNAPSHOT_PATH), { recursive: true });
+    writeFileSync(SNAPSHOT_PATH, JSON.stringify(schemas, null, 2) + "\n", "utf-8");
+  }
+  assert.deepStrictEqual(schemas, JSON.parse(readFileSync(SNAPSHOT_PATH, "utf-8")));
+});
+
+const ExampleParamsSchema = z.object({
+  path: z.string().describe("File to change"),
+  note: z.string().nullable().describe("Why, or null"),
+  limit: z.number().int().min(1).default(10),
+  mode: z.union([z.literal("fast"), z.object({ depth: z.number() })]),
+  options: z
+    .object({
+      name: z.string(),
+      tags: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+class ExampleTool extends Tool {
+  name = "example";
+  description = "Schema conversion example";
+  kind = ToolKind.READ;
+  schema = ExampleParamsSchema;
+
+  async execute(_invocation: ToolInvocation): Promise<ToolResult> {
+    return ToolResult.successResult("");
+  }
+}
+
+test("converts nullable, default, union and nested required fields", () => {
+  const { parameters } = new ExampleTool(config).toOpenAISchema();
+
+  assert.deepStrictEqual(parameters, {
+    type: "object",
+    properties: {
+      path: { type: "string", description: "File to change" },
+      note: { type: ["string", "null"], description: "Why, or null" },
+      limit: { type: "integer", minimum: 1, default: 10 },
+      mode: {
+        anyOf: [
+          { enum: ["fast"], type: "string" },
+          {
+            type: "object",
+            properties: { depth: { type: "number" } },
+            required: ["depth"],
+          },
+        ],
+      },
+      options: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+        required: ["name"],
+      },
+    },
+    required: ["path", "note", "mode"],
+  });
+});